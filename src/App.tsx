@@ -6,6 +6,10 @@ import SignupPage from './pages/SignupPage';
 import ScheduleViewer from './pages/ScheduleViewer';
 import AdminDashboard from './pages/AdminDashboard';
 import ApartmentManager from './pages/ApartmentManager';
+import CoachManager from './pages/CoachManager';
+import LessonTypeManager from './pages/LessonTypeManager';
+import StudentManager from './pages/StudentManager';
+import CoachItinerary from './pages/CoachItinerary';
 import Header from './components/Header';
 import CompleteProfilePage from './pages/CompleteProfilePage';
 import DebugInfo from './components/DebugInfo';
@@ -56,6 +60,12 @@ function App() {
               </PrivateRoute>
             } />
             
+            <Route path="/students" element={
+              <PrivateRoute>
+                <StudentManager />
+              </PrivateRoute>
+            } />
+            
             <Route path="/admin" element={
               <PrivateRoute requiredRole="admin">
                 <AdminDashboard />
@@ -68,6 +78,24 @@ function App() {
               </PrivateRoute>
             } />
             
+            <Route path="/manage-coaches" element={
+              <PrivateRoute requiredRole="admin">
+                <CoachManager />
+              </PrivateRoute>
+            } />
+            
+            <Route path="/manage-lesson-types" element={
+              <PrivateRoute requiredRole="admin">
+                <LessonTypeManager />
+              </PrivateRoute>
+            } />
+            
+            <Route path="/itinerary" element={
+              <PrivateRoute requiredRole="admin">
+                <CoachItinerary />
+              </PrivateRoute>
+            } />
+            
             <Route path="/complete-profile" element={
               <PrivateRoute>
                 <CompleteProfilePage />
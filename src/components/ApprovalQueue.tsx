@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { format, parse } from 'date-fns';
+import type { Apartment, Booking, Instructor } from '../types';
+import { describeRecurrence } from '../utils/recurrenceUtils';
+import { getStudentNames } from '../utils/studentUtils';
+import Button from './Button';
+
+interface ApprovalQueueProps {
+  requests: Booking[];
+  apartments: Apartment[];
+  instructors: Instructor[];
+  processingId: string | null; // request being approved or declined
+  error: string | null;
+  onApprove: (booking: Booking) => void;
+  onDecline: (booking: Booking, reason: string) => void;
+}
+
+/**
+ * Residents' booking requests waiting for an admin, with approve and decline actions
+ *
+ * Declining asks for an optional reason, which the resident sees with their booking.
+ */
+const ApprovalQueue: React.FC<ApprovalQueueProps> = ({
+  requests,
+  apartments,
+  instructors,
+  processingId,
+  error,
+  onApprove,
+  onDecline
+}) => {
+  // Request whose decline reason is being entered
+  const [decliningId, setDecliningId] = useState<string | null>(null);
+  const [reason, setReason] = useState<string>('');
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  const getCoachName = (booking: Booking): string => {
+    if (!booking.coachId) return instructors[0]?.name || '';
+    return instructors.find(instructor => instructor.id === booking.coachId)?.name || booking.coachId;
+  };
+
+  const handleDecline = (booking: Booking) => {
+    onDecline(booking, reason);
+    setDecliningId(null);
+    setReason('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-orange-200 mb-6">
+      <h2 className="text-lg font-semibold px-4 py-3 border-b border-orange-200 bg-orange-50 rounded-t-lg">
+        Booking Requests ({requests.length})
+      </h2>
+
+      {error && (
+        <div className="mx-4 mt-3 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {requests.map(booking => {
+          const isProcessing = processingId === booking.id;
+          const coachName = getCoachName(booking);
+
+          return (
+            <li key={booking.id} className="px-4 py-3">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {format(parse(booking.date, 'yyyy-MM-dd', new Date()), 'EEE, MMM d')} · {booking.startTime} - {booking.endTime}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {booking.userName || booking.bookedBy}
+                    {getStudentNames(booking) && ` for ${getStudentNames(booking)}`} · {apartments.find(apt => apt.id === booking.apartmentId)?.name || booking.apartmentId}
+                    {coachName && ` · ${coachName}`}
+                    {booking.recurrence && (
+                      <span className="ml-2 text-blue-700">{describeRecurrence(booking.recurrence)}</span>
+                    )}
+                  </div>
+                </div>
+
+                {decliningId !== booking.id && (
+                  <div className="flex space-x-2">
+                    <Button size="small" onClick={() => onApprove(booking)} disabled={isProcessing}>
+                      {isProcessing ? 'Saving...' : 'Approve'}
+                    </Button>
+                    <Button size="small" variant="outline" onClick={() => setDecliningId(booking.id)} disabled={isProcessing}>
+                      Decline
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {decliningId === booking.id && (
+                <div className="mt-2 flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    className="flex-1 shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    placeholder="Reason for the resident (optional)"
+                    aria-label="Decline reason"
+                    autoFocus
+                  />
+                  <div className="flex space-x-2">
+                    <Button size="small" variant="secondary" onClick={() => handleDecline(booking)}>
+                      Decline Request
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="outline"
+                      onClick={() => {
+                        setDecliningId(null);
+                        setReason('');
+                      }}
+                    >
+                      Back
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default ApprovalQueue;
@@ -0,0 +1,186 @@
+import React from 'react';
+import { format, parse } from 'date-fns';
+import type { Apartment, Instructor, LessonType, Student } from '../types';
+import { describeLessonType } from '../utils/lessonTypeUtils';
+import Button from './Button';
+import LessonTypeDot from './LessonTypeDot';
+
+interface BookingDialogProps {
+  apartment?: Apartment;
+  date: string;      // format: "YYYY-MM-DD"
+  startTime: string; // format: "HH:MM"
+  endTime: string;   // format: "HH:MM"
+  // Coaches free for the slot - residents book any of them or pick one
+  coaches?: Instructor[];
+  selectedCoachId?: string; // empty for any free coach
+  onCoachChange?: (coachId: string) => void;
+  // Type of a new lesson, picked before the slot since it sets the lesson's length
+  lessonType?: LessonType;
+  // Set when joining a group lesson instead, whose type is already set
+  joinGroup?: { lessonName: string; spotsLeft: number; capacity: number };
+  // The resident's students, of which they pick who the lesson is for
+  students?: Student[];
+  selectedStudentIds?: string[];
+  onStudentsChange?: (studentIds: string[]) => void;
+  // The slot is held for the resident while the dialog is open
+  isHolding?: boolean;   // hold being placed
+  holdExpiresAt?: Date;
+  isSubmitting: boolean;
+  error: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation dialog shown before a resident books a time slot, or requests it at
+ * pools where bookings need approval
+ *
+ * While it's open the slot is held, so nobody else can book it until the hold runs out.
+ */
+const BookingDialog: React.FC<BookingDialogProps> = ({
+  apartment,
+  date,
+  startTime,
+  endTime,
+  coaches = [],
+  selectedCoachId = '',
+  onCoachChange,
+  lessonType,
+  joinGroup,
+  students = [],
+  selectedStudentIds = [],
+  onStudentsChange,
+  isHolding = false,
+  holdExpiresAt,
+  isSubmitting,
+  error,
+  onConfirm,
+  onCancel
+}) => {
+  const toggleStudent = (studentId: string) => {
+    if (!onStudentsChange) return;
+    onStudentsChange(selectedStudentIds.includes(studentId)
+      ? selectedStudentIds.filter(id => id !== studentId)
+      : [...selectedStudentIds, studentId]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 px-4">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-md p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          {apartment?.requiresApproval ? 'Request Booking' : 'Confirm Booking'}
+        </h3>
+
+        <dl className="space-y-2 text-sm mb-4">
+          <div className="flex justify-between">
+            <dt className="text-gray-500">Pool</dt>
+            <dd className="font-medium text-gray-900">{apartment?.name || 'Unknown pool'}</dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-500">Date</dt>
+            <dd className="font-medium text-gray-900">
+              {format(parse(date, 'yyyy-MM-dd', new Date()), 'EEEE, MMMM d, yyyy')}
+            </dd>
+          </div>
+          <div className="flex justify-between">
+            <dt className="text-gray-500">Time</dt>
+            <dd className="font-medium text-gray-900">{startTime} - {endTime}</dd>
+          </div>
+          {coaches.length === 1 && (
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Coach</dt>
+              <dd className="font-medium text-gray-900">{coaches[0].name}</dd>
+            </div>
+          )}
+          {joinGroup ? (
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Lesson</dt>
+              <dd className="font-medium text-gray-900">
+                {joinGroup.lessonName} · {joinGroup.spotsLeft} of {joinGroup.capacity} spots left
+              </dd>
+            </div>
+          ) : lessonType && (
+            <div className="flex justify-between">
+              <dt className="text-gray-500">Lesson</dt>
+              <dd className="flex items-center font-medium text-gray-900">
+                <LessonTypeDot color={lessonType.color} className="mr-2" />
+                {describeLessonType(lessonType)}
+              </dd>
+            </div>
+          )}
+        </dl>
+
+        {coaches.length > 1 && (
+          <div className="mb-4">
+            <label htmlFor="bookingCoach" className="block text-sm text-gray-500 mb-1">Coach</label>
+            <select
+              id="bookingCoach"
+              value={selectedCoachId}
+              onChange={(e) => onCoachChange && onCoachChange(e.target.value)}
+              className="block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+              disabled={isSubmitting}
+            >
+              <option value="">Any available coach</option>
+              {coaches.map(coach => (
+                <option key={coach.id} value={coach.id}>{coach.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {students.length > 0 && (
+          <fieldset className="mb-4">
+            <legend className="block text-sm text-gray-500 mb-1">Who is the lesson for?</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {students.map(student => (
+                <label key={student.id} className="inline-flex items-center text-sm text-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={selectedStudentIds.includes(student.id)}
+                    onChange={() => toggleStudent(student.id)}
+                    className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    disabled={isSubmitting}
+                  />
+                  {student.name}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+
+        {isHolding ? (
+          <p className="mb-4 text-sm text-gray-500">Holding this slot for you...</p>
+        ) : holdExpiresAt && (
+          <p className="mb-4 text-sm text-indigo-800 bg-indigo-50 border border-indigo-200 rounded px-3 py-2">
+            This slot is held for you until {format(holdExpiresAt, 'HH:mm')}. After that, someone else may book it.
+          </p>
+        )}
+
+        {apartment?.requiresApproval && (
+          <p className="mb-4 text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded px-3 py-2">
+            Lessons at this pool need to be approved. The time is held for you until the coach confirms or declines it.
+          </p>
+        )}
+
+        {error && (
+          <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting || isHolding}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={isSubmitting || isHolding}>
+            {isSubmitting
+              ? 'Booking...'
+              : apartment?.requiresApproval ? 'Send Request' : 'Confirm Booking'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingDialog;
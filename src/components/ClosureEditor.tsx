@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { format, parse } from 'date-fns';
+import type { Apartment, Booking, Closure } from '../types';
+import { describeClosure } from '../utils/closureUtils';
+import { getBookingDisplayName } from '../utils/studentUtils';
+import Button from './Button';
+
+interface ClosureEditorProps {
+  apartments: Apartment[];
+  closures: Closure[];
+  isSaving: boolean;
+  // Lessons inside the closure the admin last added or looked at
+  affected: { closure: Closure; bookings: Booking[] } | null;
+  onAdd: (closure: Omit<Closure, 'id' | 'createdAt'>) => void;
+  onDelete: (closure: Closure) => void;
+  onShowAffected: (closure: Closure) => void;
+}
+
+/**
+ * Upcoming pool closures with a form to add new ones
+ *
+ * Lessons that fall inside a closure are listed so the coach can contact those families.
+ */
+const ClosureEditor: React.FC<ClosureEditorProps> = ({
+  apartments,
+  closures,
+  isSaving,
+  affected,
+  onAdd,
+  onDelete,
+  onShowAffected
+}) => {
+  const [apartmentId, setApartmentId] = useState<string>('');
+  const [startDate, setStartDate] = useState<string>('');
+  const [endDate, setEndDate] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!startDate || !reason) {
+      setFormError('Please pick a start date and give a reason');
+      return;
+    }
+    const lastDate = endDate || startDate;
+    if (lastDate < startDate) {
+      setFormError('The closure has to end on or after its start date');
+      return;
+    }
+
+    setFormError(null);
+    onAdd({
+      // An empty pool selection closes every pool
+      ...(apartmentId ? { apartmentId } : {}),
+      startDate,
+      endDate: lastDate,
+      reason
+    });
+    setStartDate('');
+    setEndDate('');
+    setReason('');
+  };
+
+  return (
+    <div className="p-6">
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 gap-4 sm:grid-cols-5 items-end">
+        <div>
+          <label htmlFor="closureApartment" className="block text-sm font-medium text-gray-700">
+            Pool
+          </label>
+          <select
+            id="closureApartment"
+            value={apartmentId}
+            onChange={(e) => setApartmentId(e.target.value)}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          >
+            <option value="">All pools</option>
+            {apartments.map(apartment => (
+              <option key={apartment.id} value={apartment.id}>{apartment.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="closureStart" className="block text-sm font-medium text-gray-700">
+            From
+          </label>
+          <input
+            type="date"
+            id="closureStart"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            required
+          />
+        </div>
+        <div>
+          <label htmlFor="closureEnd" className="block text-sm font-medium text-gray-700">
+            Until (optional)
+          </label>
+          <input
+            type="date"
+            id="closureEnd"
+            value={endDate}
+            min={startDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          />
+        </div>
+        <div>
+          <label htmlFor="closureReason" className="block text-sm font-medium text-gray-700">
+            Reason
+          </label>
+          <input
+            type="text"
+            id="closureReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            placeholder="e.g. Maintenance"
+            required
+          />
+        </div>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Add Closure'}
+        </Button>
+      </form>
+
+      {formError && (
+        <p className="mt-2 text-sm text-red-600">{formError}</p>
+      )}
+
+      <ul className="divide-y divide-gray-100 mt-6">
+        {closures.length === 0 ? (
+          <li className="py-3 text-sm text-gray-500">No upcoming closures.</li>
+        ) : (
+          closures.map(closure => (
+            <li key={closure.id} className="py-3 flex items-center justify-between">
+              <span className="text-sm text-gray-900">{describeClosure(closure, apartments)}</span>
+              <div className="space-x-4">
+                <button
+                  onClick={() => onShowAffected(closure)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  Affected Lessons
+                </button>
+                <button
+                  onClick={() => onDelete(closure)}
+                  className="text-sm font-medium text-red-600 hover:text-red-900"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))
+        )}
+      </ul>
+
+      {affected && (
+        <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-md p-4">
+          <h3 className="text-sm font-semibold text-yellow-800 mb-2">
+            Lessons during {describeClosure(affected.closure, apartments)}
+          </h3>
+          {affected.bookings.length === 0 ? (
+            <p className="text-sm text-yellow-800">No lessons are booked during this closure.</p>
+          ) : (
+            <ul className="text-sm text-yellow-900 space-y-1">
+              {affected.bookings.map(booking => (
+                <li key={booking.id}>
+                  {format(parse(booking.date, 'yyyy-MM-dd', new Date()), 'EEE, MMM d')} · {booking.startTime} - {booking.endTime}
+                  {' · '}{apartments.find(apt => apt.id === booking.apartmentId)?.name || booking.apartmentId}
+                  {' · '}<span className="font-medium">{getBookingDisplayName(booking)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClosureEditor;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import type { CoachProfile, DailyHours, Weekday } from '../types';
+import { getTimeOptions } from '../utils/timeSlotUtils';
+import Button from './Button';
+
+interface CoachProfileEditorProps {
+  profile: CoachProfile | null;
+  isSaving: boolean;
+  onSave: (profile: CoachProfile) => void;
+}
+
+// Starting point before a profile has been saved - Monday to Saturday, no limits
+const DEFAULT_COACH_PROFILE: CoachProfile = {
+  workingHours: {
+    monday: [{ start: '08:00', end: '20:00' }],
+    tuesday: [{ start: '08:00', end: '20:00' }],
+    wednesday: [{ start: '08:00', end: '20:00' }],
+    thursday: [{ start: '08:00', end: '20:00' }],
+    friday: [{ start: '08:00', end: '20:00' }],
+    saturday: [{ start: '08:00', end: '20:00' }]
+  },
+  breaks: [],
+  maxLessonsPerDay: 0,
+  maxConsecutiveLessons: 0,
+  breakMinutes: 30
+};
+
+// Shown Monday first, unlike the getDay() order used for lookups
+const DISPLAY_WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const timeOptions = getTimeOptions();
+
+/**
+ * Coach working windows per weekday, fixed breaks and lesson limits
+ */
+const CoachProfileEditor: React.FC<CoachProfileEditorProps> = ({ profile, isSaving, onSave }) => {
+  const [draft, setDraft] = useState<CoachProfile>(profile || DEFAULT_COACH_PROFILE);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the draft whenever a fresh profile is loaded
+  useEffect(() => {
+    setDraft(profile || DEFAULT_COACH_PROFILE);
+  }, [profile]);
+
+  const setWindows = (weekday: Weekday, windows: DailyHours[]) => {
+    setDraft(prev => ({ ...prev, workingHours: { ...prev.workingHours, [weekday]: windows } }));
+  };
+
+  const setBreaks = (breaks: DailyHours[]) => {
+    setDraft(prev => ({ ...prev, breaks }));
+  };
+
+  const handleSave = () => {
+    const ranges = [...Object.values(draft.workingHours).flat(), ...draft.breaks];
+    if (ranges.some(range => range && range.start >= range.end)) {
+      setFormError('Every working window and break has to start before it ends');
+      return;
+    }
+
+    setFormError(null);
+    onSave({
+      ...draft,
+      maxLessonsPerDay: Math.max(0, Number(draft.maxLessonsPerDay)),
+      maxConsecutiveLessons: Math.max(0, Number(draft.maxConsecutiveLessons)),
+      breakMinutes: Math.max(0, Number(draft.breakMinutes))
+    });
+  };
+
+  const renderRange = (range: DailyHours, label: string, onChange: (range: DailyHours) => void, onRemove: () => void) => (
+    <div className="flex items-center space-x-2">
+      <select
+        value={range.start}
+        onChange={(e) => onChange({ ...range, start: e.target.value })}
+        className="shadow-sm sm:text-sm border-gray-300 rounded-md p-1 border"
+        aria-label={`${label} start`}
+      >
+        {timeOptions.map(time => (
+          <option key={time} value={time}>{time}</option>
+        ))}
+      </select>
+      <span className="text-gray-500 text-sm">to</span>
+      <select
+        value={range.end}
+        onChange={(e) => onChange({ ...range, end: e.target.value })}
+        className="shadow-sm sm:text-sm border-gray-300 rounded-md p-1 border"
+        aria-label={`${label} end`}
+      >
+        {timeOptions.map(time => (
+          <option key={time} value={time}>{time}</option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="text-sm font-medium text-red-600 hover:text-red-900"
+      >
+        Remove
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Working Hours</h3>
+        <table className="w-full text-sm">
+          <tbody>
+            {DISPLAY_WEEKDAYS.map(weekday => {
+              const windows = draft.workingHours[weekday] || [];
+
+              return (
+                <tr key={weekday} className="border-t border-gray-100 align-top">
+                  <td className="py-2 pr-3 capitalize text-gray-700 w-28">{weekday}</td>
+                  <td className="py-2 space-y-2">
+                    {windows.length === 0 && <span className="text-gray-500">Day off</span>}
+                    {windows.map((window, index) => (
+                      <div key={index}>
+                        {renderRange(
+                          window,
+                          `${weekday} window ${index + 1}`,
+                          (range) => setWindows(weekday, windows.map((w, i) => (i === index ? range : w))),
+                          () => setWindows(weekday, windows.filter((_, i) => i !== index))
+                        )}
+                      </div>
+                    ))}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setWindows(weekday, [...windows, { start: '08:00', end: '12:00' }])}
+                      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      Add Window
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-sm font-medium text-gray-700">Breaks</h3>
+          <button
+            type="button"
+            onClick={() => setBreaks([...draft.breaks, { start: '12:00', end: '13:00' }])}
+            className="text-sm font-medium text-blue-600 hover:text-blue-800"
+          >
+            Add Break
+          </button>
+        </div>
+        {draft.breaks.length === 0 && (
+          <p className="text-xs text-gray-500">No fixed breaks. Breaks apply on every working day.</p>
+        )}
+        <div className="space-y-2">
+          {draft.breaks.map((coachBreak, index) => (
+            <div key={index}>
+              {renderRange(
+                coachBreak,
+                `Break ${index + 1}`,
+                (range) => setBreaks(draft.breaks.map((b, i) => (i === index ? range : b))),
+                () => setBreaks(draft.breaks.filter((_, i) => i !== index))
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <label htmlFor="maxLessonsPerDay" className="block text-sm font-medium text-gray-700">
+            Max Lessons per Day
+          </label>
+          <input
+            type="number"
+            id="maxLessonsPerDay"
+            min={0}
+            value={draft.maxLessonsPerDay}
+            onChange={(e) => setDraft(prev => ({ ...prev, maxLessonsPerDay: Number(e.target.value) }))}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          />
+        </div>
+        <div>
+          <label htmlFor="maxConsecutiveLessons" className="block text-sm font-medium text-gray-700">
+            Max Lessons in a Row
+          </label>
+          <input
+            type="number"
+            id="maxConsecutiveLessons"
+            min={0}
+            value={draft.maxConsecutiveLessons}
+            onChange={(e) => setDraft(prev => ({ ...prev, maxConsecutiveLessons: Number(e.target.value) }))}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          />
+        </div>
+        <div>
+          <label htmlFor="breakMinutes" className="block text-sm font-medium text-gray-700">
+            Minimum Break (minutes)
+          </label>
+          <input
+            type="number"
+            id="breakMinutes"
+            min={0}
+            value={draft.breakMinutes}
+            onChange={(e) => setDraft(prev => ({ ...prev, breakMinutes: Number(e.target.value) }))}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Use 0 for no limit. Lessons with less than the minimum break between them count as lessons in a row.
+      </p>
+
+      {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Coach Profile'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CoachProfileEditor;
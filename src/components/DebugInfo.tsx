@@ -67,7 +67,7 @@ const DebugInfo = () => {
   }, []);
 
   return (
-    <div className="p-4 m-4 bg-yellow-100 border border-yellow-300 rounded-lg">
+    <div className="p-4 m-4 bg-yellow-100 border border-yellow-300 rounded-lg print:hidden">
       <h2 className="text-lg font-bold mb-2">Debug Information</h2>
       <p className="mb-1"><span className="font-semibold">Firebase Config:</span> {configStatus}</p>
       <p className="mb-1"><span className="font-semibold">Firebase Auth:</span> {authStatus}</p>
@@ -1,30 +1,118 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { format } from 'date-fns';
-import type { Booking, Apartment } from '../types';
+import type {
+  Booking,
+  BookingConflict,
+  BookingMoveCheck,
+  Apartment,
+  Closure,
+  CoachLimitReason,
+  GridCell,
+  Instructor,
+  LessonType,
+  TimeSlot,
+  TravelTimeMatrix
+} from '../types';
+import {
+  checkBookingMove,
+  describeBookingConflict,
+  describeCoachLimit,
+  isActiveBooking,
+  formatHours,
+  generateSlotsForCoaches,
+  getCoachBookings,
+  getDefaultCoachId,
+  countGroupSpots,
+  getGroupMembers,
+  getOperatingHoursForDate,
+  layoutSlotColumn
+} from '../utils/timeSlotUtils';
+import { findClosure, describeClosure } from '../utils/closureUtils';
+import { STATUS_LABELS } from '../utils/bookingStatusUtils';
+import {
+  DEFAULT_LESSON_TYPES,
+  getLessonType,
+  getLessonTypeName,
+  getSlotCapacity,
+  isGroupBooking,
+  isSameGroupSlot
+} from '../utils/lessonTypeUtils';
+import { getBookingDisplayName, hasStudent } from '../utils/studentUtils';
+import LessonTypeDot from './LessonTypeDot';
 
 interface DirectBookingGridProps {
   apartments: Apartment[];
   bookings: Booking[];
   userHomeLocation: string;
   date: Date;
-  onSlotClick?: (apartmentId: string, time: string, endTime: string) => void;
+  travelTimes?: TravelTimeMatrix;
+  closures?: Closure[];
+  instructors?: Instructor[];
+  coachFilter?: string; // show a single coach's availability, or every coach's when empty
+  lessonTypes?: LessonType[];
+  slotDuration?: number; // slot length of the lesson type being booked, instead of each pool's
+  studentFilter?: string; // fade every lesson this student isn't in, or none when empty
+  viewerId?: string; // resident looking at the grid, who only sees who their own lessons are for
+  showAllNames?: boolean; // show who every lesson is for, e.g. to admins
+  onSlotClick?: (apartmentId: string, time: string, endTime: string, coachIds: string[]) => void;
+  // Set to let bookings be dragged to another time or pool - only called for moves that fit
+  onBookingMove?: (booking: Booking, apartmentId: string, startTime: string) => void;
+  // Set to let residents queue for booked lessons by clicking them
+  onWaitlistClick?: (booking: Booking) => void;
+  // Set to let residents join group lessons with spots left by clicking them
+  onJoinGroupClick?: (booking: Booking, spotsLeft: number) => void;
 }
 
 /**
- * A simplified grid component that directly shows bookings without complex time slot generation
+ * Schedule grid showing every apartment's slots for a day side by side
+ *
+ * Each apartment gets its own slots from its operating hours and slot duration - or
+ * slotDuration, for a lesson type of its own length - and the rows are the union of
+ * all slot boundaries so 30- and 60-minute pools line up. Rows
+ * outside an apartment's slots are shown as closed, and closures (maintenance, holidays)
+ * get their own merged block with the reason. Free slots also have to fit the coach's
+ * working hours, breaks and lesson limits - with several coaches, a slot is free while
+ * at least one of the shown coaches is, and the other coaches' lessons at that time are
+ * stacked inside its cell. With onBookingMove, bookings can be dragged to
+ * another time or pool, and the cell under the pointer previews the move's conflicts.
+ * With onWaitlistClick, booked lessons can be clicked to join their waitlist. Group
+ * lessons show their spots left, and with onJoinGroupClick they can be clicked to join.
+ * With studentFilter, the lessons the student isn't in are faded out. Who a lesson is
+ * for is only shown on the viewer's own lessons, or on all of them with showAllNames.
  */
 const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
   apartments,
   bookings,
   userHomeLocation,
   date,
-  onSlotClick
+  travelTimes = {},
+  closures = [],
+  instructors = [],
+  coachFilter = '',
+  lessonTypes = DEFAULT_LESSON_TYPES,
+  slotDuration,
+  studentFilter = '',
+  viewerId = '',
+  showAllNames = false,
+  onSlotClick,
+  onBookingMove,
+  onWaitlistClick,
+  onJoinGroupClick
 }) => {
-  // Generate time slots from 8:00 to 20:00 (8am to 8pm)
-  const timeSlots = [];
-  for (let hour = 8; hour < 20; hour++) {
-    timeSlots.push(`${hour.toString().padStart(2, '0')}:00`);
-  }
+  const dateString = format(date, 'yyyy-MM-dd');
+  // Booking being dragged, and the result of dropping it where it's hovering
+  const [draggedBooking, setDraggedBooking] = useState<Booking | null>(null);
+  const [moveCheck, setMoveCheck] = useState<BookingMoveCheck | null>(null);
+  const [moveMessage, setMoveMessage] = useState<string | null>(null);
+
+  // Coaches whose availability is shown, and the bookings that take up their time
+  const defaultCoachId = getDefaultCoachId(instructors);
+  const shownCoaches = coachFilter
+    ? instructors.filter(instructor => instructor.id === coachFilter)
+    : instructors;
+
+  // Late cancellations are kept for the record but free up their slot
+  const activeBookings = getCoachBookings(bookings.filter(isActiveBooking), coachFilter || undefined, defaultCoachId);
 
   // Sort apartments to show user's home location first
   const sortedApartments = [...apartments].sort((a, b) => {
@@ -33,55 +121,159 @@ const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
     return a.name.localeCompare(b.name);
   });
 
-  // Function to get end time (1 hour later)
-  const getEndTime = (time: string) => {
-    const [hours] = time.split(':');
-    const nextHour = (parseInt(hours) + 1) % 24;
-    return `${nextHour.toString().padStart(2, '0')}:00`;
+  // Function to get an apartment's slots, including the bookings no slot shows - made outside
+  // its regular slots, or another coach's lessons at a time a coach is free - so they still
+  // show up on the grid, once per group lesson
+  const getApartmentSlots = (apartment: Apartment): TimeSlot[] => {
+    const slots = generateSlotsForCoaches(
+      apartment,
+      dateString,
+      activeBookings,
+      closures,
+      travelTimes,
+      shownCoaches,
+      defaultCoachId,
+      slotDuration
+    );
+    const closure = findClosure(closures, apartment.id, dateString);
+    const isShown = (booking: Booking): boolean => slots.some(slot =>
+      !!slot.booking && (slot.booking.id === booking.id || isSameGroupSlot(slot.booking, booking))
+    );
+    const unshownSlots: TimeSlot[] = activeBookings
+      .filter(booking => booking.apartmentId === apartment.id && !isShown(booking))
+      .filter((booking, index, unshown) => !unshown.slice(0, index).some(earlier => isSameGroupSlot(earlier, booking)))
+      .map(booking => ({
+        apartmentId: apartment.id,
+        date: dateString,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        status: closure ? 'closed' : booking.status === 'unavailable' ? 'unavailable' : 'booked',
+        booking,
+        closure,
+        ...(isGroupBooking(booking)
+          ? { spotsLeft: Math.max(getSlotCapacity(booking) - countGroupSpots(getGroupMembers(booking, activeBookings)), 0) }
+          : {})
+      }));
+
+    return [...slots, ...unshownSlots];
   };
 
-  // Function to check if a slot is booked
-  const isSlotBooked = (apartmentId: string, startTime: string): Booking | undefined => {
-    return bookings.find(
-      booking => 
-        booking.apartmentId === apartmentId && 
-        booking.startTime === startTime
-    );
+  const slotsByApartment: Record<string, TimeSlot[]> = {};
+  sortedApartments.forEach(apartment => {
+    slotsByApartment[apartment.id] = getApartmentSlots(apartment);
+  });
+
+  // Rows start at every slot and booking boundary of any apartment, except the last end time
+  const boundaries = Object.values(slotsByApartment)
+    .flat()
+    .flatMap(slot => [
+      slot.startTime,
+      slot.endTime,
+      ...(slot.booking ? [slot.booking.startTime, slot.booking.endTime] : [])
+    ]);
+  const lastEndTime = [...boundaries].sort().pop();
+  const rowTimes = boundaries
+    .filter((time, index, self) => self.indexOf(time) === index && time !== lastEndTime)
+    .sort();
+
+  // Slots clashing with the same booking or block are shown as one cell at its times
+  const columnLayouts: Record<string, Record<string, GridCell | null>> = {};
+  sortedApartments.forEach(apartment => {
+    columnLayouts[apartment.id] = layoutSlotColumn(rowTimes, slotsByApartment[apartment.id]);
+  });
+
+  // Function to check whether the pool is open at a row's time
+  const isWithinHours = (apartment: Apartment, time: string): boolean => {
+    const hours = getOperatingHoursForDate(apartment, dateString);
+    return !!hours && time >= hours.start && time < hours.end;
   };
 
-  // Function to check if slot falls within travel buffer
-  const isTravelBufferSlot = (apartmentId: string, startTime: string): boolean => {
-    // Don't apply travel buffer to user's home location
-    if (apartmentId === userHomeLocation) return false;
-    
-    // Look for any booking in any apartment
-    for (const booking of bookings) {
-      // Skip bookings in the current apartment (those are direct bookings, not travel buffers)
-      if (booking.apartmentId === apartmentId) continue;
-      
-      // Get booking time as hour number for easy comparison
-      const bookingHour = parseInt(booking.startTime.split(':')[0]);
-      const slotHour = parseInt(startTime.split(':')[0]);
-      
-      // If slot is within +/- 1 hour of a booking, it's a travel buffer slot
-      if (Math.abs(slotHour - bookingHour) <= 1) {
-        return true;
-      }
-    }
-    return false;
+  // Function to get why the coach's itinerary leaves no room for a free slot
+  // The result is the same for every user, whatever their home location is
+  const getSlotConflict = (slot: TimeSlot): BookingConflict | null => {
+    return slot.conflict || null;
+  };
+
+  // Function to list the coaches free for a slot when there are several to choose from
+  const getCoachNames = (slot: TimeSlot): string => {
+    return (slot.coachIds || [])
+      .map(coachId => instructors.find(instructor => instructor.id === coachId)?.name)
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  // Short cell labels for times the coach's profile rules out
+  const coachLimitLabels: Record<CoachLimitReason, string> = {
+    'off-hours': 'Coach Off',
+    'break': 'Coach Break',
+    'daily-limit': 'Day Full',
+    'consecutive-limit': 'Break Needed'
+  };
+
+  // Booked lessons can be queued for, blocks and lessons already taught can't
+  const canJoinWaitlist = (booking: Booking): boolean => {
+    return !!onWaitlistClick && (booking.status === 'confirmed' || booking.status === 'requested');
+  };
+
+  // Completed lessons and no-shows still take up their time, but can't be moved any more
+  const isPastLesson = (booking: Booking): boolean => {
+    return booking.status === 'completed' || booking.status === 'no-show';
+  };
+
+  // Group lessons with a free spot can be joined until they've taken place
+  const canJoinGroup = (slot: TimeSlot): boolean => {
+    return !!onJoinGroupClick && !!slot.booking && !slot.closure && !isPastLesson(slot.booking) && (slot.spotsLeft || 0) > 0;
+  };
+
+  // With a student filter, lessons - or every spot of a group lesson - without the student
+  const isOtherStudentsLesson = (booking: Booking): boolean => {
+    if (!studentFilter) return false;
+    const members = isGroupBooking(booking) ? getGroupMembers(booking, bookings) : [booking];
+    return !members.some(member => hasStudent(member, studentFilter));
+  };
+
+  // Other residents' lessons just show as booked, without the names of who they're for
+  const canSeeBookedFor = (booking: Booking): boolean =>
+    showAllNames || (!!viewerId && booking.bookedBy === viewerId);
+
+  const getBookedForLabel = (booking: Booking): string => {
+    return canSeeBookedFor(booking) ? getBookingDisplayName(booking) : 'Booked';
   };
 
   // Function to get display classes based on slot status
-  const getSlotClasses = (apartmentId: string, time: string): string => {
-    const booking = isSlotBooked(apartmentId, time);
-    const isHomeLocation = apartmentId === userHomeLocation;
+  const getSlotClasses = (slot: TimeSlot, conflict: BookingConflict | null): string => {
+    const isHomeLocation = slot.apartmentId === userHomeLocation;
     
-    if (booking) {
+    if (slot.closure) {
+      // Pool closed for maintenance or a holiday
+      return 'bg-purple-100 text-purple-800';
+    } else if (slot.booking && (slot.spotsLeft || 0) > 0) {
+      // Group lesson with spots left
+      return `bg-teal-50 text-teal-800 border border-teal-300 ${canJoinGroup(slot) ? 'hover:bg-teal-100' : ''}`;
+    } else if (slot.booking?.status === 'requested') {
+      // Tentative - waiting for an admin to approve the request
+      return 'bg-orange-50 text-orange-800 border border-dashed border-orange-400';
+    } else if (slot.booking?.status === 'offered') {
+      // Tentative - held for someone from the waitlist
+      return 'bg-sky-50 text-sky-800 border border-dashed border-sky-400';
+    } else if (slot.booking?.status === 'held') {
+      // Someone is confirming a booking for this slot right now
+      return 'bg-indigo-50 text-indigo-800 border border-dashed border-indigo-400';
+    } else if (slot.booking && isPastLesson(slot.booking)) {
+      // Lesson already taught or missed
+      return 'bg-slate-200 text-slate-700';
+    } else if (slot.booking) {
       // Booked slot
       return isHomeLocation 
         ? 'bg-red-200 text-red-800' 
         : 'bg-red-100 text-red-800';
-    } else if (isTravelBufferSlot(apartmentId, time)) {
+    } else if (slot.coachLimit) {
+      // Outside the coach's working hours or limits
+      return 'bg-gray-100 text-gray-500';
+    } else if (conflict?.reason === 'overlap') {
+      // Coach is teaching elsewhere
+      return 'bg-gray-100 text-gray-600';
+    } else if (conflict) {
       // Travel buffer slot
       return 'bg-yellow-100 text-yellow-800';
     } else {
@@ -91,12 +283,28 @@ const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
   };
 
   // Function to get slot text based on status
-  const getSlotText = (apartmentId: string, time: string): string => {
-    const booking = isSlotBooked(apartmentId, time);
-    
-    if (booking) {
-      return booking.bookedBy === 'admin' ? 'Reserved' : 'Booked';
-    } else if (isTravelBufferSlot(apartmentId, time)) {
+  const getSlotText = (slot: TimeSlot, conflict: BookingConflict | null): string => {
+    if (slot.closure) {
+      return 'Pool Closed';
+    } else if (slot.booking && slot.spotsLeft !== undefined) {
+      return slot.spotsLeft > 0
+        ? `${slot.spotsLeft} of ${getSlotCapacity(slot.booking)} spots left`
+        : 'Full';
+    } else if (slot.booking?.status === 'requested') {
+      return 'Requested';
+    } else if (slot.booking?.status === 'offered') {
+      return 'Offered';
+    } else if (slot.booking?.status === 'held') {
+      return 'Being Booked';
+    } else if (slot.booking && isPastLesson(slot.booking)) {
+      return STATUS_LABELS[slot.booking.status || 'confirmed'];
+    } else if (slot.booking) {
+      return slot.booking.bookedBy === 'admin' ? 'Reserved' : 'Booked';
+    } else if (slot.coachLimit) {
+      return coachLimitLabels[slot.coachLimit];
+    } else if (conflict?.reason === 'overlap') {
+      return 'Unavailable';
+    } else if (conflict) {
       return 'Travel Buffer';
     } else {
       return 'Available';
@@ -104,27 +312,217 @@ const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
   };
 
   // Function to get tooltip text
-  const getTooltip = (apartmentId: string, time: string): string => {
-    const booking = isSlotBooked(apartmentId, time);
-    const isHomeLocation = apartmentId === userHomeLocation;
+  const getTooltip = (slot: TimeSlot, conflict: BookingConflict | null): string => {
+    const booking = slot.booking;
+    const isHomeLocation = slot.apartmentId === userHomeLocation;
+    
+    if (slot.closure) {
+      return `The pool is closed from ${slot.closure.startDate} to ${slot.closure.endDate}${slot.closure.reason ? `: ${slot.closure.reason}` : ''}`;
+    }
+    
+    if (booking && slot.spotsLeft !== undefined) {
+      const lessonName = getLessonTypeName(booking, lessonTypes) || 'Group';
+      if (slot.spotsLeft > 0) {
+        return `${lessonName} lesson with ${slot.spotsLeft} of ${getSlotCapacity(booking)} spots left${canJoinGroup(slot) ? ' - click to join' : ''}`;
+      }
+      return `This ${lessonName.toLowerCase()} lesson is full${canJoinWaitlist(booking) ? ' - click to join the waitlist' : ''}`;
+    }
+    
+    if (booking?.status === 'requested') {
+      return `Requested for ${getBookedForLabel(booking)} - waiting for the coach to confirm`;
+    }
+    
+    if (booking?.status === 'offered') {
+      return 'Offered to the next resident on the waitlist';
+    }
+    
+    if (booking?.status === 'held') {
+      return 'Someone is booking this time right now - it frees up again if they don\'t confirm';
+    }
+    
+    if (booking && canJoinWaitlist(booking)) {
+      return 'This time is booked - click to join the waitlist';
+    }
     
     if (booking) {
       if (isHomeLocation) {
-        return `This time is booked by ${booking.bookedBy || 'someone'} at your home pool`;
+        return canSeeBookedFor(booking)
+          ? `This time is booked for ${getBookingDisplayName(booking)} at your home pool`
+          : 'This time is booked at your home pool';
       } else {
         const bookedApartment = apartments.find(apt => apt.id === booking.apartmentId);
         return `This time is booked at ${bookedApartment?.name || 'another pool'}`;
       }
-    } else if (isTravelBufferSlot(apartmentId, time)) {
-      return 'Travel buffer from another booking (30 min before/after)';
-    } else {
+    }
+    
+    if (slot.coachLimit) {
+      return describeCoachLimit(slot.coachLimit, shownCoaches[0]?.profile || null);
+    }
+    
+    if (!conflict) {
       return 'Click to book this time slot';
     }
+    
+    const conflictApartment = apartments.find(apt => apt.id === conflict.booking.apartmentId);
+    const conflictTime = `${conflict.booking.startTime}-${conflict.booking.endTime}`;
+    if (conflict.reason === 'overlap') {
+      return `The coach has a lesson at ${conflictApartment?.name || 'another pool'} (${conflictTime})`;
+    }
+    return `The coach needs ${conflict.travelMinutes} min to travel to or from the ${conflictTime} lesson at ${conflictApartment?.name || 'another pool'}`;
+  };
+
+  // Function to explain why a move doesn't fit, or null when it does
+  const describeMoveProblem = (check: BookingMoveCheck): string | null => {
+    if (check.outsideHours) return 'The pool is not open for the whole lesson at this time.';
+    if (check.closure) return `${describeClosure(check.closure, apartments)}.`;
+    if (check.conflict) return describeBookingConflict(check.conflict, apartments);
+    if (check.coachLimit) {
+      const coachId = check.candidate.coachId || defaultCoachId;
+      const profile = instructors.find(instructor => instructor.id === coachId)?.profile || null;
+      return describeCoachLimit(check.coachLimit, profile);
+    }
+    return null;
+  };
+
+  // A group lesson several residents booked can't be dragged as a whole, since each
+  // resident has their own booking
+  const getSharedLessonMessage = (booking: Booking): string | null => {
+    if (!isGroupBooking(booking) || getGroupMembers(booking, bookings).length <= 1) return null;
+    return 'Several residents booked this group lesson. Edit each resident\'s booking in the bookings table instead.';
+  };
+
+  // Bookings that can be dragged to another time or pool - past lessons and holds stay put
+  const getDragBooking = (slot: TimeSlot): Booking | null => {
+    return onBookingMove && slot.booking && !slot.closure &&
+      !isPastLesson(slot.booking) && slot.booking.status !== 'held'
+      ? slot.booking
+      : null;
+  };
+
+  // Drag handlers for a booked cell or a booking stacked onto another cell
+  const getDragProps = (dragBooking: Booking | null) => {
+    if (!dragBooking) return { draggable: false };
+    const sharedLessonMessage = getSharedLessonMessage(dragBooking);
+
+    return {
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => {
+        // Stacked bookings sit inside a cell that may be draggable itself
+        e.stopPropagation();
+        if (sharedLessonMessage) {
+          e.preventDefault();
+          setMoveMessage(sharedLessonMessage);
+          return;
+        }
+        e.dataTransfer.effectAllowed = 'move';
+        setDraggedBooking(dragBooking);
+        setMoveMessage(null);
+      },
+      onDragEnd: () => {
+        setDraggedBooking(null);
+        setMoveCheck(null);
+      }
+    };
+  };
+
+  // Clicking a booking joins its group lesson, or its waitlist when it's full
+  const handleBookedClick = (slot: TimeSlot) => {
+    if (canJoinGroup(slot) && slot.booking && onJoinGroupClick) {
+      onJoinGroupClick(slot.booking, slot.spotsLeft || 0);
+    } else if (slot.booking && !slot.closure && canJoinWaitlist(slot.booking) && onWaitlistClick) {
+      onWaitlistClick(slot.booking);
+    }
+  };
+
+  // Function to get whether clicking a booking does anything
+  const isClickableBooking = (slot: TimeSlot): boolean => {
+    return canJoinGroup(slot) || (!!slot.booking && !slot.closure && canJoinWaitlist(slot.booking));
+  };
+
+  // Function to get the lesson type and who a booking is for
+  const getBookingLabel = (booking: Booking): string => {
+    return isGroupBooking(booking)
+      ? `${getLessonTypeName(booking, lessonTypes)} lesson`
+      : getBookedForLabel(booking);
+  };
+
+  // Another booking starting while a cell is shown, as a badge inside that cell
+  const renderStackedSlot = (stacked: TimeSlot) => {
+    const booking = stacked.booking;
+    if (!booking) return null;
+    const dragBooking = getDragBooking(stacked);
+    const lessonType = getLessonType(booking, lessonTypes);
+
+    return (
+      <div
+        key={booking.id}
+        onClick={(e) => {
+          e.stopPropagation();
+          handleBookedClick(stacked);
+        }}
+        {...getDragProps(dragBooking)}
+        className={`
+          mt-2 rounded px-2 py-1 text-xs
+          ${getSlotClasses(stacked, null)}
+          ${dragBooking && !getSharedLessonMessage(dragBooking) ? 'cursor-move' : ''}
+          ${isClickableBooking(stacked) ? 'cursor-pointer' : ''}
+          ${isOtherStudentsLesson(booking) ? 'opacity-40' : ''}
+        `}
+        title={getTooltip(stacked, null)}
+      >
+        <div className="flex justify-between items-center font-medium">
+          <span>{getSlotText(stacked, null)}</span>
+          <span>{stacked.startTime}-{stacked.endTime}</span>
+        </div>
+        <div className="flex items-center mt-1">
+          {lessonType && <LessonTypeDot color={lessonType.color} className="mr-1" />}
+          <span className="truncate">{getBookingLabel(booking)}</span>
+        </div>
+      </div>
+    );
+  };
+
+  // Drop targets - every cell, including closed and booked ones, previews the move
+  const getDropHandlers = (apartmentId: string, startTime: string) => {
+    if (!onBookingMove || !draggedBooking) return {};
+    const apartment = apartments.find(apt => apt.id === apartmentId);
+    if (!apartment) return {};
+
+    return {
+      onDragOver: (e: React.DragEvent) => e.preventDefault(),
+      onDragEnter: () => {
+        setMoveCheck(checkBookingMove(
+          draggedBooking, apartment, startTime, bookings.filter(isActiveBooking), closures, travelTimes, instructors
+        ));
+      },
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        const check = checkBookingMove(
+          draggedBooking, apartment, startTime, bookings.filter(isActiveBooking), closures, travelTimes, instructors
+        );
+        const problem = describeMoveProblem(check);
+        setDraggedBooking(null);
+        setMoveCheck(null);
+        setMoveMessage(problem ? `Can't move the booking there: ${problem}` : null);
+        const isSamePlace = apartmentId === draggedBooking.apartmentId && startTime === draggedBooking.startTime;
+        if (!problem && !isSamePlace) {
+          onBookingMove(draggedBooking, apartmentId, startTime);
+        }
+      }
+    };
+  };
+
+  // Highlight the cell the dragged booking would move to
+  const getDropTargetClasses = (apartmentId: string, startTime: string): string => {
+    if (!moveCheck || moveCheck.candidate.apartmentId !== apartmentId || moveCheck.candidate.startTime !== startTime) {
+      return '';
+    }
+    return describeMoveProblem(moveCheck) ? 'ring-2 ring-red-500' : 'ring-2 ring-green-500';
   };
 
   // Count bookings per apartment
   const countBookings = (apartmentId: string): number => {
-    return bookings.filter(b => b.apartmentId === apartmentId).length;
+    return activeBookings.filter(b => b.apartmentId === apartmentId).length;
   };
 
   return (
@@ -133,6 +531,23 @@ const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
         Schedule for {format(date, 'MMMM d, yyyy')}
       </h2>
 
+      {onBookingMove && (draggedBooking || moveMessage) && (
+        <div className={`mb-4 px-4 py-3 rounded text-sm border ${
+          moveMessage || (moveCheck && describeMoveProblem(moveCheck))
+            ? 'bg-red-50 border-red-200 text-red-800'
+            : 'bg-green-50 border-green-200 text-green-800'
+        }`}>
+          {moveMessage || (draggedBooking && !moveCheck && 'Drop the booking on a new time or pool.')}
+          {!moveMessage && moveCheck && (
+            <>
+              {`Move to ${apartments.find(apt => apt.id === moveCheck.candidate.apartmentId)?.name} `}
+              {`${moveCheck.candidate.startTime}-${moveCheck.candidate.endTime}: `}
+              {describeMoveProblem(moveCheck) || 'No conflicts.'}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Calendar-Style Layout */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto mb-6">
         <div className="min-w-max">
@@ -156,7 +571,7 @@ const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
                       </div>
                       <div className="flex justify-between items-center mt-1">
                         <span className="text-xs text-gray-500">
-                          {apartment.operatingHours?.start || '08:00'}-{apartment.operatingHours?.end || '20:00'}
+                          {formatHours(getOperatingHoursForDate(apartment, dateString))}
                         </span>
                         <span className={`text-xs ${bookedCount > 0 ? 'text-red-600' : 'text-green-600'} font-medium`}>
                           {bookedCount > 0 ? `${bookedCount} booked` : 'Available'}
@@ -169,9 +584,14 @@ const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
             </thead>
             
             <tbody>
-              {timeSlots.map(time => {
-                const endTime = getEndTime(time);
-                
+              {rowTimes.length === 0 && (
+                <tr>
+                  <td colSpan={sortedApartments.length + 1} className="py-6 px-4 text-center text-sm text-gray-500">
+                    All pools are closed on this day.
+                  </td>
+                </tr>
+              )}
+              {rowTimes.map(time => {
                 return (
                   <tr key={time} className="border-b border-gray-100 hover:bg-gray-50">
                     <td className="py-2 px-4 text-sm font-medium text-gray-700 border-r border-gray-200">
@@ -179,40 +599,92 @@ const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
                     </td>
                     
                     {sortedApartments.map(apartment => {
-                      const booking = isSlotBooked(apartment.id, time);
-                      const slotClasses = getSlotClasses(apartment.id, time);
-                      const slotText = getSlotText(apartment.id, time);
-                      const tooltip = getTooltip(apartment.id, time);
-                      const isAvailable = !booking && !isTravelBufferSlot(apartment.id, time);
+                      const cell = columnLayouts[apartment.id][time];
+                      // Row is covered by a cell starting further up
+                      if (cell === null) return null;
+                      
+                      if (!cell && isWithinHours(apartment, time)) {
+                        // Open, but no lesson can start here - e.g. between a booking and the next free start
+                        return (
+                          <td key={`${apartment.id}-${time}`} className="py-2 px-4" {...getDropHandlers(apartment.id, time)}>
+                            <div className={`rounded-md px-3 py-2 bg-gray-50 text-gray-400 ${getDropTargetClasses(apartment.id, time)}`} title="No lesson can start at this time">
+                              <span className="text-xs font-medium">-</span>
+                            </div>
+                          </td>
+                        );
+                      }
+
+                      if (!cell) {
+                        // No slot at this time - the pool is closed
+                        return (
+                          <td key={`${apartment.id}-${time}`} className="py-2 px-4" {...getDropHandlers(apartment.id, time)}>
+                            <div className={`rounded-md px-3 py-2 bg-gray-50 text-gray-400 ${getDropTargetClasses(apartment.id, time)}`} title="The pool is closed at this time">
+                              <span className="text-xs font-medium">Closed</span>
+                            </div>
+                          </td>
+                        );
+                      }
+                      
+                      const slot = cell.slots[0];
+                      const endTime = cell.slots[cell.slots.length - 1].endTime;
+                      const conflict = getSlotConflict(slot);
+                      const isAvailable = slot.status === 'available' && !conflict;
+                      const lessonType = slot.booking ? getLessonType(slot.booking, lessonTypes) : undefined;
+                      const dragBooking = getDragBooking(slot);
+                      const sharedLessonMessage = dragBooking && getSharedLessonMessage(dragBooking);
                       
                       return (
                         <td 
                           key={`${apartment.id}-${time}`} 
-                          className="py-2 px-4"
+                          rowSpan={cell.rowSpan}
+                          className="py-2 px-4 align-top"
+                          {...getDropHandlers(apartment.id, slot.startTime)}
                         >
                           <div 
-                            onClick={() => isAvailable && onSlotClick && onSlotClick(apartment.id, time, endTime)}
+                            onClick={() => {
+                              if (isAvailable && onSlotClick) {
+                                onSlotClick(apartment.id, slot.startTime, endTime, slot.coachIds || []);
+                              } else {
+                                handleBookedClick(slot);
+                              }
+                            }}
+                            {...getDragProps(dragBooking)}
                             className={`
-                              rounded-md px-3 py-2 relative
-                              ${slotClasses}
+                              rounded-md px-3 py-2 relative h-full
+                              ${getSlotClasses(slot, conflict)}
                               ${isAvailable ? 'hover:bg-green-200 transition-colors' : ''}
+                              ${dragBooking && !sharedLessonMessage ? 'cursor-move' : ''}
+                              ${isClickableBooking(slot) ? 'cursor-pointer' : ''}
+                              ${getDropTargetClasses(apartment.id, slot.startTime)}
+                              ${slot.booking && isOtherStudentsLesson(slot.booking) ? 'opacity-40' : ''}
                             `}
-                            title={tooltip}
+                            title={getTooltip(slot, conflict)}
                           >
                             <div className="flex justify-between items-center">
                               <span className="text-xs font-medium">
-                                {slotText}
+                                {getSlotText(slot, conflict)}
                               </span>
                               <span className="text-xs">{endTime}</span>
                             </div>
                             
-                            {booking && (
+                            {slot.closure ? (
                               <div className="text-xs truncate mt-1 font-medium">
-                                {booking.userName || booking.bookedBy}
+                                {slot.closure.reason}
+                              </div>
+                            ) : slot.booking ? (
+                              <div className="flex items-center text-xs mt-1 font-medium">
+                                {lessonType && <LessonTypeDot color={lessonType.color} className="mr-1" />}
+                                <span className="truncate">{getBookingLabel(slot.booking)}</span>
+                              </div>
+                            ) : isAvailable && shownCoaches.length > 1 && (
+                              <div className="text-xs truncate mt-1">
+                                {getCoachNames(slot)}
                               </div>
                             )}
                             
-                            {isTravelBufferSlot(apartment.id, time) && !booking && (
+                            {cell.stackedSlots.map(renderStackedSlot)}
+                            
+                            {conflict?.reason === 'travel-buffer' && (
                               <span className="absolute top-0 right-0 -mt-1 -mr-1 w-2 h-2 bg-yellow-400 rounded-full"></span>
                             )}
                           </div>
@@ -243,9 +715,41 @@ const DirectBookingGrid: React.FC<DirectBookingGridProps> = ({
             <div className="w-4 h-4 bg-red-100 border border-red-300 rounded-sm mr-2"></div>
             <span className="text-sm">Booked (Other Pool)</span>
           </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-orange-50 border border-dashed border-orange-400 rounded-sm mr-2"></div>
+            <span className="text-sm">Requested (Awaiting Approval)</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-sky-50 border border-dashed border-sky-400 rounded-sm mr-2"></div>
+            <span className="text-sm">Offered from the Waitlist</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-indigo-50 border border-dashed border-indigo-400 rounded-sm mr-2"></div>
+            <span className="text-sm">Being Booked</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-teal-50 border border-teal-300 rounded-sm mr-2"></div>
+            <span className="text-sm">Group Lesson with Spots Left</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-slate-200 border border-slate-300 rounded-sm mr-2"></div>
+            <span className="text-sm">Completed or No-show</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-gray-100 border border-gray-300 rounded-sm mr-2"></div>
+            <span className="text-sm">Unavailable (Coach Teaching Elsewhere, Off Duty or at the Lesson Limit)</span>
+          </div>
           <div className="flex items-center">
             <div className="w-4 h-4 bg-yellow-100 border border-yellow-200 rounded-sm mr-2"></div>
-            <span className="text-sm">Travel Buffer (30 min)</span>
+            <span className="text-sm">Travel Buffer</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-gray-50 border border-gray-200 rounded-sm mr-2"></div>
+            <span className="text-sm">Closed</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-purple-100 border border-purple-200 rounded-sm mr-2"></div>
+            <span className="text-sm">Pool Closed (Maintenance or Holiday)</span>
           </div>
           <div className="flex items-center">
             <div className="text-blue-600 font-medium border-b-2 border-blue-500 px-2 mr-2">Pool</div>
@@ -21,7 +21,7 @@ const Header: React.FC = () => {
   };
 
   return (
-    <header className="bg-white shadow">
+    <header className="bg-white shadow print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between h-16">
           <div className="flex">
@@ -35,6 +35,12 @@ const Header: React.FC = () => {
               >
                 Schedule
               </Link>
+              <Link
+                to="/students"
+                className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              >
+                My Students
+              </Link>
               {currentUser && userData?.role === 'admin' && (
                 <>
                   <Link
@@ -49,6 +55,24 @@ const Header: React.FC = () => {
                   >
                     Manage Pools
                   </Link>
+                  <Link
+                    to="/manage-coaches"
+                    className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                  >
+                    Manage Coaches
+                  </Link>
+                  <Link
+                    to="/manage-lesson-types"
+                    className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                  >
+                    Lesson Types
+                  </Link>
+                  <Link
+                    to="/itinerary"
+                    className="inline-flex items-center px-1 pt-1 border-b-2 border-transparent text-sm font-medium text-gray-500 hover:text-gray-700 hover:border-gray-300"
+                  >
+                    Itinerary
+                  </Link>
                 </>
               )}
             </nav>
@@ -118,6 +142,13 @@ const Header: React.FC = () => {
             >
               Schedule
             </Link>
+            <Link
+              to="/students"
+              className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-gray-600 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-800"
+              onClick={() => setIsMenuOpen(false)}
+            >
+              My Students
+            </Link>
             {userData?.role === 'admin' && (
               <>
                 <Link
@@ -134,6 +165,27 @@ const Header: React.FC = () => {
                 >
                   Manage Pools
                 </Link>
+                <Link
+                  to="/manage-coaches"
+                  className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-gray-600 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-800"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  Manage Coaches
+                </Link>
+                <Link
+                  to="/manage-lesson-types"
+                  className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-gray-600 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-800"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  Lesson Types
+                </Link>
+                <Link
+                  to="/itinerary"
+                  className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-gray-600 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-800"
+                  onClick={() => setIsMenuOpen(false)}
+                >
+                  Itinerary
+                </Link>
               </>
             )}
           </div>
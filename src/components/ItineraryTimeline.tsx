@@ -0,0 +1,113 @@
+import React from 'react';
+import type { Apartment, ItinerarySegment, ItinerarySummary } from '../types';
+import { IDLE_GAP_MINUTES } from '../utils/itineraryUtils';
+import { getBookingDisplayName } from '../utils/studentUtils';
+
+interface ItineraryTimelineProps {
+  segments: ItinerarySegment[];
+  summary: ItinerarySummary;
+  apartments: Apartment[];
+}
+
+// "1 h 15 min" style durations for the run sheet
+const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+/**
+ * A coach's day as a route - lessons in order with the travel and waiting between them
+ *
+ * Travel that doesn't fit between two lessons is flagged in red, long waits in yellow.
+ */
+const ItineraryTimeline: React.FC<ItineraryTimelineProps> = ({ segments, summary, apartments }) => {
+  const getApartmentName = (apartmentId: string) => {
+    return apartments.find(apt => apt.id === apartmentId)?.name || apartmentId;
+  };
+
+  return (
+    <div>
+      <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <dt className="text-xs text-gray-500 uppercase">Lessons</dt>
+          <dd className="text-xl font-semibold text-gray-900">{summary.lessons}</dd>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <dt className="text-xs text-gray-500 uppercase">Total Travel</dt>
+          <dd className="text-xl font-semibold text-gray-900">{formatMinutes(summary.travelMinutes)}</dd>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <dt className="text-xs text-gray-500 uppercase">Idle Time</dt>
+          <dd className="text-xl font-semibold text-gray-900">{formatMinutes(summary.idleMinutes)}</dd>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <dt className="text-xs text-gray-500 uppercase">Too Short to Travel</dt>
+          <dd className={`text-xl font-semibold ${summary.tightGaps > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {summary.tightGaps}
+          </dd>
+        </div>
+      </dl>
+
+      {segments.length === 0 ? (
+        <p className="text-sm text-gray-500">No lessons on this day.</p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-3">
+          {segments.map((segment, index) => {
+            if (segment.type === 'lesson') {
+              const { booking } = segment;
+              return (
+                <li key={booking.id} className="ml-6 mb-4 break-inside-avoid">
+                  <span className="absolute -left-[9px] w-4 h-4 rounded-full bg-blue-500 border-2 border-white"></span>
+                  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-3">
+                    <div className="flex justify-between">
+                      <span className="font-semibold text-gray-900">{booking.startTime} - {booking.endTime}</span>
+                      <span className="text-sm text-gray-700">{getApartmentName(booking.apartmentId)}</span>
+                    </div>
+                    <div className="text-sm text-gray-600">{getBookingDisplayName(booking)}</div>
+                  </div>
+                </li>
+              );
+            }
+
+            if (segment.type === 'travel') {
+              const isTooShort = segment.availableMinutes < segment.minutes;
+              return (
+                <li key={`travel-${index}`} className="ml-6 mb-4 break-inside-avoid">
+                  <div className={`rounded-md px-3 py-2 text-sm border-l-4 ${
+                    isTooShort ? 'bg-red-50 border-red-500 text-red-800' : 'bg-gray-50 border-gray-400 text-gray-700'
+                  }`}>
+                    <div>
+                      {segment.startTime} - {segment.endTime} · Travel {getApartmentName(segment.fromApartmentId)} to{' '}
+                      {getApartmentName(segment.toApartmentId)} ({formatMinutes(segment.minutes)})
+                    </div>
+                    {isTooShort && (
+                      <div className="font-medium">
+                        Too short to travel - only {formatMinutes(Math.max(0, segment.availableMinutes))} between the lessons
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            }
+
+            const isLong = segment.minutes >= IDLE_GAP_MINUTES;
+            return (
+              <li key={`idle-${index}`} className="ml-6 mb-4 break-inside-avoid">
+                <div className={`rounded-md px-3 py-2 text-sm ${
+                  isLong ? 'bg-yellow-50 text-yellow-800 font-medium' : 'text-gray-500'
+                }`}>
+                  {segment.startTime} - {segment.endTime} · {isLong ? 'Idle' : 'Wait'} at {getApartmentName(segment.apartmentId)}{' '}
+                  ({formatMinutes(segment.minutes)})
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ItineraryTimeline;
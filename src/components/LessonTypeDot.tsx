@@ -0,0 +1,19 @@
+import React from 'react';
+
+interface LessonTypeDotProps {
+  color: string; // the lesson type's hex colour
+  className?: string;
+}
+
+// Colour swatch of a lesson type - the colours are the admin's, so they can't be Tailwind classes
+const LessonTypeDot: React.FC<LessonTypeDotProps> = ({ color, className = '' }) => {
+  return (
+    <span
+      className={`inline-block w-2 h-2 rounded-full flex-shrink-0 ${className}`}
+      style={{ backgroundColor: color }}
+      aria-hidden="true"
+    />
+  );
+};
+
+export default LessonTypeDot;
@@ -0,0 +1,165 @@
+import React from 'react';
+import {
+  format,
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  isBefore,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns';
+import type { Apartment, Booking, Closure, DayAvailability, Instructor, TravelTimeMatrix } from '../types';
+import {
+  isActiveBooking,
+  countAvailableSlots,
+  getCoachBookings,
+  getDefaultCoachId
+} from '../utils/timeSlotUtils';
+
+interface MonthCalendarProps {
+  month: Date;                  // any day in the month shown
+  selectedDate: Date;
+  apartments: Apartment[];
+  focusApartmentId?: string;    // count free slots at this pool only, e.g. a resident's home pool
+  bookings: Booking[];          // every booking of the days shown
+  travelTimes?: TravelTimeMatrix;
+  closures?: Closure[];
+  instructors?: Instructor[];
+  coachFilter?: string;
+  slotDuration?: number; // count slots of a lesson type's length instead of each pool's
+  isLoading?: boolean;
+  onMonthChange: (month: Date) => void;
+  onSelectDate: (date: Date) => void;
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Month calendar picker with a busy/free indicator on every day
+ *
+ * Days count their free start times with the same rules as the day grid - at one pool when
+ * focusApartmentId is set, otherwise across every pool. Past days have no indicator.
+ */
+const MonthCalendar: React.FC<MonthCalendarProps> = ({
+  month,
+  selectedDate,
+  apartments,
+  focusApartmentId,
+  bookings,
+  travelTimes = {},
+  closures = [],
+  instructors = [],
+  coachFilter = '',
+  slotDuration,
+  isLoading = false,
+  onMonthChange,
+  onSelectDate
+}) => {
+  const today = startOfDay(new Date());
+  const firstShown = startOfWeek(startOfMonth(month), { weekStartsOn: 1 });
+  const lastShown = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+  const days: Date[] = [];
+  for (let day = firstShown; !isBefore(lastShown, day); day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const focusApartment = apartments.find(apartment => apartment.id === focusApartmentId);
+  const countedApartments = focusApartment ? [focusApartment] : apartments;
+
+  // Coaches whose availability is counted, and the bookings that take up their time
+  const defaultCoachId = getDefaultCoachId(instructors);
+  const shownCoaches = coachFilter
+    ? instructors.filter(instructor => instructor.id === coachFilter)
+    : instructors;
+  const activeBookings = getCoachBookings(bookings.filter(isActiveBooking), coachFilter || undefined, defaultCoachId);
+
+  const getAvailability = (day: Date): DayAvailability => {
+    const date = format(day, 'yyyy-MM-dd');
+    return countedApartments
+      .map(apartment => countAvailableSlots(
+        apartment, date, activeBookings, closures, travelTimes, shownCoaches, defaultCoachId, slotDuration
+      ))
+      .reduce((sum, count) => ({ free: sum.free + count.free, total: sum.total + count.total }), { free: 0, total: 0 });
+  };
+
+  const renderIndicator = (day: Date) => {
+    if (isLoading || isBefore(day, today) || !isSameMonth(day, month)) {
+      return null;
+    }
+
+    const { free, total } = getAvailability(day);
+    const where = focusApartment ? `at ${focusApartment.name}` : 'across all pools';
+    if (total === 0) {
+      return <div className="text-[10px] text-gray-400" title={`Closed ${where}`}>Closed</div>;
+    }
+    if (free === 0) {
+      return <div className="text-[10px] font-medium text-red-600" title={`Fully booked ${where}`}>Full</div>;
+    }
+    return (
+      <div className="flex items-center justify-center text-[10px] text-green-700" title={`${free} of ${total} start times free ${where}`}>
+        <span className="w-1.5 h-1.5 rounded-full bg-green-500 mr-1"></span>
+        {free} left
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <div className="flex justify-between items-center mb-2">
+        <button
+          onClick={() => onMonthChange(addMonths(month, -1))}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-100 text-sm"
+          aria-label="Previous month"
+        >
+          &lsaquo;
+        </button>
+        <div className="text-center">
+          <h2 className="text-lg font-bold">{format(month, 'MMMM yyyy')}</h2>
+          <p className="text-xs text-gray-500">
+            Free slots {focusApartment ? `at ${focusApartment.name}` : 'across all pools'}
+          </p>
+        </div>
+        <button
+          onClick={() => onMonthChange(addMonths(month, 1))}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-100 text-sm"
+          aria-label="Next month"
+        >
+          &rsaquo;
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="text-center text-xs font-medium text-gray-500 py-1">{label}</div>
+        ))}
+        {days.map(day => {
+          const isSelected = isSameDay(day, selectedDate);
+          const inMonth = isSameMonth(day, month);
+
+          return (
+            <button
+              key={day.toISOString()}
+              onClick={() => onSelectDate(day)}
+              className={`rounded-md py-1 min-h-[3rem] flex flex-col items-center border ${
+                isSelected
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-transparent hover:bg-gray-100'
+              } ${inMonth ? '' : 'opacity-40'}`}
+            >
+              <span className={`text-sm ${isSameDay(day, today) ? 'font-bold text-blue-600' : 'text-gray-900'}`}>
+                {format(day, 'd')}
+              </span>
+              {renderIndicator(day)}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default MonthCalendar;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { format, parse } from 'date-fns';
+import type { Apartment, Booking, LessonType } from '../types';
+import { isLateCancellation } from '../utils/timeSlotUtils';
+import {
+  STATUS_BADGE_CLASSES,
+  STATUS_LABELS,
+  getAvailableTransitions,
+  isOfferExpired
+} from '../utils/bookingStatusUtils';
+import { describeRecurrence } from '../utils/recurrenceUtils';
+import { DEFAULT_LESSON_TYPES, getLessonType, getLessonTypeName } from '../utils/lessonTypeUtils';
+import { getStudentNames } from '../utils/studentUtils';
+import LessonTypeDot from './LessonTypeDot';
+
+interface MyBookingsProps {
+  bookings: Booking[];
+  apartments: Apartment[];
+  cancellingId: string | null;
+  onCancel: (booking: Booking) => void;
+  // Slots offered from the waitlist, which the resident confirms or turns down
+  onAcceptOffer?: (booking: Booking) => void;
+  onDeclineOffer?: (booking: Booking) => void;
+  lessonTypes?: LessonType[];
+}
+
+/**
+ * List of the signed-in resident's upcoming bookings with a cancel action, and the
+ * slots offered to them from the waitlist
+ */
+const MyBookings: React.FC<MyBookingsProps> = ({
+  bookings,
+  apartments,
+  cancellingId,
+  onCancel,
+  onAcceptOffer,
+  onDeclineOffer,
+  lessonTypes = DEFAULT_LESSON_TYPES
+}) => {
+  if (bookings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+      <h2 className="text-lg font-semibold px-4 py-3 border-b border-gray-200">My Upcoming Bookings</h2>
+      <ul className="divide-y divide-gray-100">
+        {bookings.map(booking => {
+          const apartment = apartments.find(apt => apt.id === booking.apartmentId);
+          const status = booking.status || 'confirmed';
+          const isDeclined = status === 'declined';
+          const isRequested = status === 'requested';
+          const isOpenOffer = status === 'offered' && !isOfferExpired(booking);
+          const canCancel = getAvailableTransitions(booking, 'user').includes('cancelled-by-resident');
+          const isLate = canCancel && !isRequested && isLateCancellation(booking, apartment);
+          const statusLabel = status === 'cancelled-by-resident'
+            ? booking.lateCancellation ? 'Cancelled (late)' : 'Cancelled'
+            : isOfferExpired(booking) ? STATUS_LABELS['offer-expired'] : STATUS_LABELS[status];
+
+          const lessonType = getLessonType(booking, lessonTypes);
+
+          return (
+            <li key={booking.id} className="flex items-center justify-between px-4 py-3">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {format(parse(booking.date, 'yyyy-MM-dd', new Date()), 'EEE, MMM d')} · {booking.startTime} - {booking.endTime}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {apartment?.name || booking.apartmentId}
+                  {getStudentNames(booking) && ` · ${getStudentNames(booking)}`}
+                  {booking.recurrence && (
+                    <span className="ml-2 text-blue-700">{describeRecurrence(booking.recurrence)}</span>
+                  )}
+                  {booking.lessonTypeId && (
+                    <span className="ml-2 inline-flex items-center gap-1 text-gray-700">
+                      {lessonType && <LessonTypeDot color={lessonType.color} />}
+                      {getLessonTypeName(booking, lessonTypes)} lesson
+                    </span>
+                  )}
+                  {isRequested && (
+                    <span className="ml-2 text-orange-700">Awaiting confirmation</span>
+                  )}
+                  {isOpenOffer && booking.offerExpiresAt && (
+                    <span className="ml-2 text-sky-700">
+                      Offered from the waitlist - confirm by {format(booking.offerExpiresAt, 'MMM d, HH:mm')}
+                    </span>
+                  )}
+                  {isDeclined && (
+                    <span className="ml-2 text-red-700">
+                      Declined{booking.declineReason ? `: ${booking.declineReason}` : ''}
+                    </span>
+                  )}
+                  {isLate && (
+                    <span className="ml-2 text-yellow-700">
+                      Within the {apartment?.cancellationCutoffHours}-hour cancellation cutoff
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {isOpenOffer ? (
+                <div className="flex space-x-3">
+                  <button
+                    onClick={() => onAcceptOffer && onAcceptOffer(booking)}
+                    disabled={cancellingId === booking.id}
+                    className="text-sm font-medium text-green-700 hover:text-green-900"
+                  >
+                    Take Slot
+                  </button>
+                  <button
+                    onClick={() => onDeclineOffer && onDeclineOffer(booking)}
+                    disabled={cancellingId === booking.id}
+                    className="text-sm font-medium text-red-600 hover:text-red-900"
+                  >
+                    Pass
+                  </button>
+                </div>
+              ) : !canCancel ? (
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[status]}`}>
+                  {statusLabel}
+                </span>
+              ) : (
+                <button
+                  onClick={() => onCancel(booking)}
+                  disabled={cancellingId === booking.id}
+                  className={`text-sm font-medium text-red-600 hover:text-red-900 ${cancellingId === booking.id ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  {cancellingId === booking.id ? 'Cancelling...' : isRequested ? 'Withdraw' : 'Cancel'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default MyBookings;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { format, parse } from 'date-fns';
+import type { Apartment, WaitlistEntry } from '../types';
+import { getTimeOptions, timeToMinutes } from '../utils/timeSlotUtils';
+import { WAITLIST_OFFER_MINUTES } from '../utils/waitlistUtils';
+import Button from './Button';
+
+interface MyWaitlistProps {
+  entries: WaitlistEntry[];
+  apartments: Apartment[];
+  date: string;             // format: "YYYY-MM-DD", the day a new window is for
+  defaultApartmentId: string;
+  isSaving: boolean;
+  error: string | null;
+  onJoinWindow: (apartmentId: string, startTime: string, endTime: string) => void;
+  onLeave: (entry: WaitlistEntry) => void;
+}
+
+const timeOptions = getTimeOptions();
+
+/**
+ * The resident's waitlist entries, and a form to queue for any slot in a time window
+ *
+ * When a matching lesson is cancelled, the slot is offered under My Upcoming Bookings.
+ */
+const MyWaitlist: React.FC<MyWaitlistProps> = ({
+  entries,
+  apartments,
+  date,
+  defaultApartmentId,
+  isSaving,
+  error,
+  onJoinWindow,
+  onLeave
+}) => {
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+  const [apartmentId, setApartmentId] = useState<string>(defaultApartmentId);
+  const [startTime, setStartTime] = useState<string>('09:00');
+  const [endTime, setEndTime] = useState<string>('12:00');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!apartmentId) {
+      setFormError('Please pick a pool');
+      return;
+    }
+    if (timeToMinutes(endTime) <= timeToMinutes(startTime)) {
+      setFormError('The window has to end after it starts');
+      return;
+    }
+
+    setFormError(null);
+    onJoinWindow(apartmentId, startTime, endTime);
+    setFormVisible(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+      <div className="flex justify-between items-center px-4 py-3 border-b border-gray-200">
+        <h2 className="text-lg font-semibold">My Waitlist</h2>
+        <button
+          onClick={() => setFormVisible(!formVisible)}
+          className="text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          {formVisible ? 'Cancel' : 'Wait for a Time Window'}
+        </button>
+      </div>
+
+      {formVisible && (
+        <form onSubmit={handleSubmit} className="p-4 grid grid-cols-1 gap-3 sm:grid-cols-4 items-end border-b border-gray-100">
+          <div>
+            <label htmlFor="waitlistPool" className="block text-sm font-medium text-gray-700">Pool</label>
+            <select
+              id="waitlistPool"
+              value={apartmentId}
+              onChange={(e) => setApartmentId(e.target.value)}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            >
+              <option value="">Select</option>
+              {apartments.map(apartment => (
+                <option key={apartment.id} value={apartment.id}>{apartment.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="waitlistFrom" className="block text-sm font-medium text-gray-700">From</label>
+            <select
+              id="waitlistFrom"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            >
+              {timeOptions.map(time => (
+                <option key={time} value={time}>{time}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="waitlistUntil" className="block text-sm font-medium text-gray-700">Until</label>
+            <select
+              id="waitlistUntil"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            >
+              {timeOptions.map(time => (
+                <option key={time} value={time}>{time}</option>
+              ))}
+            </select>
+          </div>
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? 'Joining...' : `Join for ${format(parse(date, 'yyyy-MM-dd', new Date()), 'MMM d')}`}
+          </Button>
+          <p className="sm:col-span-4 text-xs text-gray-500">
+            If a lesson in this window is cancelled, you'll have {WAITLIST_OFFER_MINUTES} minutes to take the slot
+            before it's offered to the next person.
+          </p>
+        </form>
+      )}
+
+      {(formError || error) && <p className="px-4 pt-3 text-sm text-red-600">{formError || error}</p>}
+
+      {entries.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-gray-500">
+          You're not waiting for any slots. Click a booked lesson in the schedule to join its waitlist.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-center justify-between px-4 py-3">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {format(parse(entry.date, 'yyyy-MM-dd', new Date()), 'EEE, MMM d')} · {entry.startTime} - {entry.endTime}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {apartments.find(apt => apt.id === entry.apartmentId)?.name || entry.apartmentId}
+                  <span className="ml-2">{entry.bookingId ? 'Booked lesson' : 'Any slot in this window'}</span>
+                  {entry.status === 'offered' && (
+                    <span className="ml-2 text-sky-700">Slot offered - see My Upcoming Bookings</span>
+                  )}
+                </div>
+              </div>
+              {entry.status === 'waiting' && (
+                <button
+                  onClick={() => onLeave(entry)}
+                  className="text-sm font-medium text-red-600 hover:text-red-900"
+                >
+                  Leave
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MyWaitlist;
@@ -0,0 +1,139 @@
+import React from 'react';
+import type { DailyHours, Weekday, WeeklyHours } from '../types';
+
+interface OperatingHoursEditorProps {
+  idPrefix: string;
+  hours: DailyHours;
+  weeklyHours: WeeklyHours;
+  timeOptions: string[];
+  onHoursChange: (hours: DailyHours) => void;
+  onWeeklyHoursChange: (weeklyHours: WeeklyHours) => void;
+}
+
+// Shown Monday first, unlike the getDay() order used for lookups
+const DISPLAY_WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+type DayMode = 'default' | 'custom' | 'closed';
+
+/**
+ * Default opening hours plus per-weekday exceptions
+ *
+ * Each weekday either uses the default hours, has its own hours, or is closed all day.
+ */
+const OperatingHoursEditor: React.FC<OperatingHoursEditorProps> = ({
+  idPrefix,
+  hours,
+  weeklyHours,
+  timeOptions,
+  onHoursChange,
+  onWeeklyHoursChange
+}) => {
+  const getDayMode = (weekday: Weekday): DayMode => {
+    const dayHours = weeklyHours[weekday];
+    if (dayHours === undefined) return 'default';
+    return dayHours === null ? 'closed' : 'custom';
+  };
+
+  const handleModeChange = (weekday: Weekday, mode: DayMode) => {
+    const updated = { ...weeklyHours };
+    if (mode === 'default') {
+      delete updated[weekday];
+    } else if (mode === 'closed') {
+      updated[weekday] = null;
+    } else {
+      updated[weekday] = { ...hours };
+    }
+    onWeeklyHoursChange(updated);
+  };
+
+  const handleDayHoursChange = (weekday: Weekday, dayHours: DailyHours) => {
+    onWeeklyHoursChange({ ...weeklyHours, [weekday]: dayHours });
+  };
+
+  const renderTimeSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+      required
+    >
+      {timeOptions.map(time => (
+        <option key={time} value={time}>{time}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor={`${idPrefix}-start`} className="block text-sm font-medium text-gray-700">
+            Opening Time
+          </label>
+          {renderTimeSelect(`${idPrefix}-start`, hours.start, (start) => onHoursChange({ ...hours, start }))}
+        </div>
+
+        <div>
+          <label htmlFor={`${idPrefix}-end`} className="block text-sm font-medium text-gray-700">
+            Closing Time
+          </label>
+          {renderTimeSelect(`${idPrefix}-end`, hours.end, (end) => onHoursChange({ ...hours, end }))}
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">Weekly Schedule</span>
+        <table className="w-full text-sm">
+          <tbody>
+            {DISPLAY_WEEKDAYS.map(weekday => {
+              const mode = getDayMode(weekday);
+              const dayHours = weeklyHours[weekday];
+
+              return (
+                <tr key={weekday} className="border-t border-gray-100">
+                  <td className="py-2 pr-3 capitalize text-gray-700 w-28">{weekday}</td>
+                  <td className="py-2 pr-3 w-40">
+                    <select
+                      value={mode}
+                      onChange={(e) => handleModeChange(weekday, e.target.value as DayMode)}
+                      className="block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-1 border"
+                      aria-label={`Hours on ${weekday}`}
+                    >
+                      <option value="default">Default hours</option>
+                      <option value="custom">Custom hours</option>
+                      <option value="closed">Closed</option>
+                    </select>
+                  </td>
+                  <td className="py-2">
+                    {mode === 'custom' && dayHours ? (
+                      <div className="flex items-center space-x-2">
+                        <div className="w-28">
+                          {renderTimeSelect(`${idPrefix}-${weekday}-start`, dayHours.start, (start) =>
+                            handleDayHoursChange(weekday, { ...dayHours, start })
+                          )}
+                        </div>
+                        <span className="text-gray-500">to</span>
+                        <div className="w-28">
+                          {renderTimeSelect(`${idPrefix}-${weekday}-end`, dayHours.end, (end) =>
+                            handleDayHoursChange(weekday, { ...dayHours, end })
+                          )}
+                        </div>
+                      </div>
+                    ) : (
+                      <span className="text-gray-500">
+                        {mode === 'closed' ? 'Closed all day' : `${hours.start} - ${hours.end}`}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default OperatingHoursEditor;
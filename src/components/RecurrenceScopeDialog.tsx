@@ -0,0 +1,49 @@
+import React from 'react';
+import type { RecurrenceScope } from '../types';
+import Button from './Button';
+
+export type RecurrenceAction = 'edit' | 'delete' | 'cancel';
+
+const ACTION_LABELS: Record<RecurrenceAction, { verb: string; done: string }> = {
+  edit: { verb: 'Edit', done: 'changed' },
+  delete: { verb: 'Delete', done: 'deleted' },
+  cancel: { verb: 'Cancel', done: 'cancelled' }
+};
+
+interface RecurrenceScopeDialogProps {
+  action: RecurrenceAction;
+  onSelect: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks whether a change to a recurring lesson applies to one occurrence or the rest of the series
+ */
+const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({ action, onSelect, onCancel }) => {
+  const { verb, done } = ACTION_LABELS[action];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 px-4">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-sm p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">{verb} recurring lesson</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          This lesson is part of a recurring series. Which lessons should be {done}?
+        </p>
+
+        <div className="flex flex-col space-y-2">
+          <Button variant="outline" onClick={() => onSelect('this')}>
+            This lesson only
+          </Button>
+          <Button variant="outline" onClick={() => onSelect('following')}>
+            This and all following lessons
+          </Button>
+          <Button variant="secondary" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecurrenceScopeDialog;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import type { Apartment, FlexibleRequest, RouteProposal } from '../types';
+import { getTimeOptions, timeToMinutes } from '../utils/timeSlotUtils';
+import { MAX_FLEXIBLE_REQUESTS, optimizeRoute, planRoute } from '../utils/routeOptimizer';
+import type { RouteContext } from '../utils/routeOptimizer';
+import Button from './Button';
+
+interface RouteOptimizerProps {
+  apartments: Apartment[];
+  context: RouteContext;
+  isSaving: boolean;
+  error: string | null;
+  // Resolves to true once the proposal is saved as bookings
+  onAccept: (proposal: RouteProposal) => Promise<boolean>;
+}
+
+const timeOptions = getTimeOptions();
+
+/**
+ * Flexible lesson requests for the day and the best order to teach them in
+ *
+ * The proposal is compared with teaching the requests in the order they were added.
+ */
+const RouteOptimizer: React.FC<RouteOptimizerProps> = ({ apartments, context, isSaving, error, onAccept }) => {
+  const [requests, setRequests] = useState<FlexibleRequest[]>([]);
+  const [proposal, setProposal] = useState<RouteProposal | null>(null);
+  const [apartmentId, setApartmentId] = useState<string>('');
+  const [userName, setUserName] = useState<string>('');
+  const [earliestStart, setEarliestStart] = useState<string>('09:00');
+  const [latestEnd, setLatestEnd] = useState<string>('17:00');
+  const [duration, setDuration] = useState<number>(60);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const getApartmentName = (id: string) => apartments.find(apt => apt.id === id)?.name || id;
+
+  const handleAddRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!apartmentId || !userName.trim()) {
+      setFormError('Please pick a pool and enter who the lesson is for');
+      return;
+    }
+    if (timeToMinutes(latestEnd) - timeToMinutes(earliestStart) < duration) {
+      setFormError('The window has to be at least as long as the lesson');
+      return;
+    }
+
+    setFormError(null);
+    setRequests(prev => [...prev, {
+      id: `${Date.now()}`,
+      apartmentId,
+      userName: userName.trim(),
+      earliestStart,
+      latestEnd,
+      duration
+    }]);
+    setUserName('');
+    setProposal(null);
+  };
+
+  const handleRemoveRequest = (id: string) => {
+    setRequests(prev => prev.filter(request => request.id !== id));
+    setProposal(null);
+  };
+
+  const handleAccept = async () => {
+    if (!proposal) return;
+    if (await onAccept(proposal)) {
+      setRequests([]);
+      setProposal(null);
+    }
+  };
+
+  const inOrderTravel = proposal ? planRoute(requests, context).travelMinutes : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6 print:hidden">
+      <h2 className="text-lg font-semibold px-4 py-3 border-b border-gray-200">Route Optimiser</h2>
+
+      <form onSubmit={handleAddRequest} className="p-4 grid grid-cols-1 gap-3 sm:grid-cols-6 items-end">
+        <div className="sm:col-span-2">
+          <label htmlFor="requestName" className="block text-sm font-medium text-gray-700">Lesson For</label>
+          <input
+            type="text"
+            id="requestName"
+            value={userName}
+            onChange={(e) => setUserName(e.target.value)}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            placeholder="Resident name"
+          />
+        </div>
+        <div>
+          <label htmlFor="requestPool" className="block text-sm font-medium text-gray-700">Pool</label>
+          <select
+            id="requestPool"
+            value={apartmentId}
+            onChange={(e) => setApartmentId(e.target.value)}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          >
+            <option value="">Select</option>
+            {apartments.map(apartment => (
+              <option key={apartment.id} value={apartment.id}>{apartment.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="requestEarliest" className="block text-sm font-medium text-gray-700">From</label>
+          <select
+            id="requestEarliest"
+            value={earliestStart}
+            onChange={(e) => setEarliestStart(e.target.value)}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          >
+            {timeOptions.map(time => (
+              <option key={time} value={time}>{time}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="requestLatest" className="block text-sm font-medium text-gray-700">Until</label>
+          <select
+            id="requestLatest"
+            value={latestEnd}
+            onChange={(e) => setLatestEnd(e.target.value)}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          >
+            {timeOptions.map(time => (
+              <option key={time} value={time}>{time}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="requestDuration" className="block text-sm font-medium text-gray-700">Minutes</label>
+          <input
+            type="number"
+            id="requestDuration"
+            min={15}
+            step={15}
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value))}
+            className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+          />
+        </div>
+        <div className="sm:col-span-6 flex justify-end">
+          <Button type="submit" variant="secondary" disabled={requests.length >= MAX_FLEXIBLE_REQUESTS}>
+            Add Request
+          </Button>
+        </div>
+      </form>
+
+      {formError && <p className="px-4 text-sm text-red-600">{formError}</p>}
+
+      {requests.length > 0 && (
+        <div className="px-4 pb-4">
+          <ul className="divide-y divide-gray-100 mb-4">
+            {requests.map(request => (
+              <li key={request.id} className="py-2 flex justify-between items-center text-sm">
+                <span>
+                  <span className="font-medium">{request.userName}</span> · {getApartmentName(request.apartmentId)} ·{' '}
+                  {request.duration} min between {request.earliestStart} and {request.latestEnd}
+                </span>
+                <button
+                  onClick={() => handleRemoveRequest(request.id)}
+                  className="text-sm font-medium text-red-600 hover:text-red-900"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-end">
+            <Button onClick={() => setProposal(optimizeRoute(requests, context))}>
+              Optimise Route
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {proposal && (
+        <div className="px-4 pb-4 border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">
+            Proposed route - {proposal.travelMinutes} min travel for the day
+            {inOrderTravel > proposal.travelMinutes && (
+              <span className="ml-2 text-green-700">
+                ({inOrderTravel - proposal.travelMinutes} min less than in the order added)
+              </span>
+            )}
+          </h3>
+          <ol className="list-decimal pl-5 text-sm text-gray-800 space-y-1">
+            {proposal.placements.map(placement => (
+              <li key={placement.request.id}>
+                {placement.startTime} - {placement.endTime} · {getApartmentName(placement.request.apartmentId)} ·{' '}
+                {placement.request.userName}
+              </li>
+            ))}
+          </ol>
+          {proposal.unplaced.length > 0 && (
+            <p className="mt-2 text-sm text-yellow-800">
+              No room for {proposal.unplaced.map(request => request.userName).join(', ')} inside their windows.
+            </p>
+          )}
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end mt-4">
+            <Button onClick={handleAccept} disabled={isSaving || proposal.placements.length === 0}>
+              {isSaving ? 'Booking...' : 'Accept and Book'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RouteOptimizer;
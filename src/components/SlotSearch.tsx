@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { format, parse } from 'date-fns';
+import type { Apartment, Instructor, LessonType, SlotSearchPreferences, TimeSlot, Weekday } from '../types';
+import { getTimeOptions } from '../utils/timeSlotUtils';
+import { describeLessonType } from '../utils/lessonTypeUtils';
+import Button from './Button';
+
+interface SlotSearchProps {
+  apartments: Apartment[];
+  homeApartmentId: string;
+  instructors: Instructor[];
+  lessonTypes: LessonType[];
+  initialLessonTypeId: string; // the lesson type picked above the schedule
+  results: TimeSlot[] | null; // null until the first search
+  isSearching: boolean;
+  error: string | null;
+  onSearch: (preferences: SlotSearchPreferences) => void;
+  onBook: (slot: TimeSlot) => void;
+}
+
+// Shown Monday first, unlike the getDay() order used for lookups
+const DISPLAY_WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+const timeOptions = getTimeOptions(30);
+
+/**
+ * Search form for the next free slots with a "book this" action on each result
+ *
+ * Results last as long as the lesson type searched for, and are booked as that type.
+ */
+const SlotSearch: React.FC<SlotSearchProps> = ({
+  apartments,
+  homeApartmentId,
+  instructors,
+  lessonTypes,
+  initialLessonTypeId,
+  results,
+  isSearching,
+  error,
+  onSearch,
+  onBook
+}) => {
+  const [homePoolOnly, setHomePoolOnly] = useState<boolean>(!!homeApartmentId);
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+  const [earliestStart, setEarliestStart] = useState<string>('08:00');
+  const [latestEnd, setLatestEnd] = useState<string>('20:00');
+  const [lessonTypeId, setLessonTypeId] = useState<string>(initialLessonTypeId);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const toggleWeekday = (weekday: Weekday) => {
+    setWeekdays(prev => prev.includes(weekday)
+      ? prev.filter(day => day !== weekday)
+      : [...prev, weekday]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (earliestStart >= latestEnd) {
+      setFormError('The earliest start has to be before the latest end');
+      return;
+    }
+
+    const lessonType = lessonTypes.find(type => type.id === lessonTypeId) || lessonTypes[0];
+    setFormError(null);
+    onSearch({
+      apartmentIds: homePoolOnly && homeApartmentId ? [homeApartmentId] : [],
+      weekdays,
+      earliestStart,
+      latestEnd,
+      lessonTypeId: lessonType.id,
+      duration: lessonType.duration || 0
+    });
+  };
+
+  const getCoachNames = (slot: TimeSlot) => {
+    return (slot.coachIds || [])
+      .map(coachId => instructors.find(instructor => instructor.id === coachId)?.name)
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+      <h2 className="text-lg font-semibold px-4 py-3 border-b border-gray-200">Find the Next Available Slot</h2>
+
+      <form onSubmit={handleSubmit} className="p-4 space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 items-end">
+          <div>
+            <label htmlFor="searchPools" className="block text-sm font-medium text-gray-700">
+              Pools
+            </label>
+            <select
+              id="searchPools"
+              value={homePoolOnly ? 'home' : 'any'}
+              onChange={(e) => setHomePoolOnly(e.target.value === 'home')}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            >
+              {homeApartmentId && (
+                <option value="home">
+                  {apartments.find(apt => apt.id === homeApartmentId)?.name || 'My home pool'} only
+                </option>
+              )}
+              <option value="any">Any pool</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="searchEarliest" className="block text-sm font-medium text-gray-700">
+              Not Before
+            </label>
+            <select
+              id="searchEarliest"
+              value={earliestStart}
+              onChange={(e) => setEarliestStart(e.target.value)}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            >
+              {timeOptions.map(time => (
+                <option key={time} value={time}>{time}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="searchLatest" className="block text-sm font-medium text-gray-700">
+              Finished By
+            </label>
+            <select
+              id="searchLatest"
+              value={latestEnd}
+              onChange={(e) => setLatestEnd(e.target.value)}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            >
+              {timeOptions.map(time => (
+                <option key={time} value={time}>{time}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="searchLessonType" className="block text-sm font-medium text-gray-700">
+              Lesson Type
+            </label>
+            <select
+              id="searchLessonType"
+              value={lessonTypeId}
+              onChange={(e) => setLessonTypeId(e.target.value)}
+              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+            >
+              {lessonTypes.map(lessonType => (
+                <option key={lessonType.id} value={lessonType.id}>{describeLessonType(lessonType)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-gray-700">Days</span>
+          {DISPLAY_WEEKDAYS.map(weekday => (
+            <label key={weekday} className="inline-flex items-center text-sm text-gray-700 capitalize">
+              <input
+                type="checkbox"
+                checked={weekdays.includes(weekday)}
+                onChange={() => toggleWeekday(weekday)}
+                className="mr-1"
+              />
+              {weekday.slice(0, 3)}
+            </label>
+          ))}
+          <span className="text-xs text-gray-500">No days ticked searches every day.</span>
+        </div>
+
+        {(formError || error) && <p className="text-sm text-red-600">{formError || error}</p>}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSearching}>
+            {isSearching ? 'Searching...' : 'Search'}
+          </Button>
+        </div>
+      </form>
+
+      {results && (
+        <ul className="divide-y divide-gray-100 border-t border-gray-200">
+          {results.length === 0 ? (
+            <li className="px-4 py-3 text-sm text-gray-500">
+              No free slots match in the next eight weeks. Try more days, a wider time window or any pool.
+            </li>
+          ) : (
+            results.map(slot => (
+              <li key={`${slot.apartmentId}_${slot.date}_${slot.startTime}`} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {format(parse(slot.date, 'yyyy-MM-dd', new Date()), 'EEE, MMM d')} · {slot.startTime} - {slot.endTime}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {apartments.find(apt => apt.id === slot.apartmentId)?.name || slot.apartmentId}
+                    {instructors.length > 1 && getCoachNames(slot) && (
+                      <span className="ml-2">with {getCoachNames(slot)}</span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onBook(slot)}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  Book This
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SlotSearch;
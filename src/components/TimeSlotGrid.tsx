@@ -1,6 +1,8 @@
 import React from 'react';
 import { format } from 'date-fns';
-import type { TimeSlot, Apartment } from '../types';
+import type { TimeSlot, Apartment, GridCell } from '../types';
+import { formatHours, getOperatingHoursForDate, layoutSlotColumn } from '../utils/timeSlotUtils';
+import { getBookingDisplayName } from '../utils/studentUtils';
 
 interface TimeSlotGridProps {
   timeSlots: Record<string, TimeSlot[]>;
@@ -43,6 +45,10 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
         return isHomeLocation ? 'bg-red-200 text-red-800' : 'bg-red-100 text-red-800';
       case 'travel-restricted':
         return 'bg-yellow-100 text-yellow-800';
+      case 'closed':
+        return 'bg-purple-100 text-purple-800';
+      case 'coach-unavailable':
+        return 'bg-gray-100 text-gray-500';
       default:
         return 'bg-gray-100';
     }
@@ -54,11 +60,17 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
         return 'Available';
       case 'booked':
         // Show more details for booked slots
+        if (slot.booking?.status === 'requested') return 'Requested';
+        if (slot.booking?.status === 'held') return 'Being Booked';
         return slot.booking?.bookedBy === 'admin' ? 'Reserved' : 'Booked';
       case 'unavailable':
         return isHomeLocation ? 'Booked' : 'Unavailable';
       case 'travel-restricted':
         return 'Travel Buffer';
+      case 'closed':
+        return 'Pool Closed';
+      case 'coach-unavailable':
+        return 'Coach Unavailable';
       default:
         return '';
     }
@@ -80,12 +92,22 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
       case 'unavailable':
         return 'This time is unavailable';
       case 'travel-restricted':
-        return '30-minute travel buffer from another booking';
+        return 'Travel buffer from a booking at another pool';
+      case 'closed':
+        return `The pool is closed${slot.closure?.reason ? `: ${slot.closure.reason}` : ''}`;
+      case 'coach-unavailable':
+        return 'The coach is off duty, on a break or at the lesson limit';
       default:
         return '';
     }
   };
 
+  // Consecutive slots of the same booking or block are shown as one merged cell
+  const columnLayouts: Record<string, Record<string, GridCell | null>> = {};
+  sortedApartments.forEach(apartment => {
+    columnLayouts[apartment.id] = layoutSlotColumn(allTimes, timeSlots[apartment.id] || []);
+  });
+
   // Function to count booked/unavailable slots for an apartment using either the bookings prop or computed from timeSlots
   const countBookedSlots = (apartmentId: string): number => {
     // Use the bookings prop if provided, otherwise calculate from timeSlots
@@ -129,7 +151,7 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
                       </div>
                       <div className="flex justify-between items-center mt-1">
                         <span className="text-xs text-gray-500">
-                          {apartment.operatingHours?.start || '08:00'}-{apartment.operatingHours?.end || '20:00'}
+                          {formatHours(getOperatingHoursForDate(apartment, format(date, 'yyyy-MM-dd')))}
                         </span>
                         <span className={`text-xs ${bookedCount > 0 ? 'text-red-600' : 'text-green-600'} font-medium`}>
                           {bookedCount > 0 ? `${bookedCount} booked` : 'Available'}
@@ -150,21 +172,25 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
                     </td>
                     
                     {sortedApartments.map(apartment => {
-                      const aptSlots = timeSlots[apartment.id] || [];
-                      const slot = aptSlots.find(s => s.startTime === time);
-                      if (!slot) return <td key={`${apartment.id}-${time}`} className="py-2 px-4"></td>;
+                      const cell = columnLayouts[apartment.id][time];
+                      // Row is covered by a merged cell starting further up
+                      if (cell === null) return null;
+                      if (!cell) return <td key={`${apartment.id}-${time}`} className="py-2 px-4"></td>;
                       
+                      const slot = cell.slots[0];
+                      const endTime = cell.slots[cell.slots.length - 1].endTime;
                       const isHomeLocation = apartment.id === userHomeLocation;
                       
                       return (
                         <td 
                           key={`${apartment.id}-${time}`} 
-                          className={`py-2 px-4 ${slot.status === 'available' ? 'cursor-pointer' : ''}`}
+                          rowSpan={cell.rowSpan}
+                          className={`py-2 px-4 align-top ${slot.status === 'available' ? 'cursor-pointer' : ''}`}
                         >
                           <div 
                             onClick={() => slot.status === 'available' && onSlotClick && onSlotClick(slot)}
                             className={`
-                              rounded-md px-3 py-2 relative
+                              rounded-md px-3 py-2 relative h-full
                               ${getStatusClass(slot.status, isHomeLocation)}
                               ${slot.status === 'available' ? 'hover:bg-green-200 transition-colors' : ''}
                             `}
@@ -174,12 +200,12 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
                               <span className="text-xs font-medium">
                                 {getStatusText(slot.status, isHomeLocation, slot)}
                               </span>
-                              <span className="text-xs">{slot.endTime}</span>
+                              <span className="text-xs">{endTime}</span>
                             </div>
                             
                             {slot.booking && slot.status === 'booked' && (
                               <div className="text-xs truncate mt-1 font-medium">
-                                {slot.booking.userName || slot.booking.bookedBy}
+                                {getBookingDisplayName(slot.booking)}
                               </div>
                             )}
                             
@@ -216,7 +242,11 @@ const TimeSlotGrid: React.FC<TimeSlotGridProps> = ({
           </div>
           <div className="flex items-center">
             <div className="w-4 h-4 bg-yellow-100 border border-yellow-200 rounded-sm mr-2"></div>
-            <span className="text-sm">Travel Buffer (30 min)</span>
+            <span className="text-sm">Travel Buffer</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 bg-purple-100 border border-purple-200 rounded-sm mr-2"></div>
+            <span className="text-sm">Pool Closed</span>
           </div>
           <div className="flex items-center">
             <div className="text-blue-600 font-medium border-b-2 border-blue-500 px-2 mr-2">Pool</div>
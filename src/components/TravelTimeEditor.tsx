@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import type { Apartment, TravelTime, TravelTimeMatrix } from '../types';
+import { DEFAULT_TRAVEL_TIME_BUFFER, getTravelTime, getTravelTimeKey } from '../utils/timeSlotUtils';
+import Button from './Button';
+
+interface TravelTimeEditorProps {
+  apartments: Apartment[];
+  travelTimes: TravelTimeMatrix;
+  isSaving: boolean;
+  onSave: (travelTimes: Omit<TravelTime, 'id'>[]) => void;
+}
+
+/**
+ * Matrix of travel times between every pair of pools
+ *
+ * Each pair is edited once, in the upper half of the table. The lower half mirrors it.
+ */
+const TravelTimeEditor: React.FC<TravelTimeEditorProps> = ({
+  apartments,
+  travelTimes,
+  isSaving,
+  onSave
+}) => {
+  const [draft, setDraft] = useState<TravelTimeMatrix>(travelTimes);
+
+  // Reset the draft whenever fresh travel times are loaded
+  useEffect(() => {
+    setDraft(travelTimes);
+  }, [travelTimes]);
+
+  const sortedApartments = [...apartments].sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleChange = (apartmentIdA: string, apartmentIdB: string, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      [getTravelTimeKey(apartmentIdA, apartmentIdB)]: Math.max(0, Number(value))
+    }));
+  };
+
+  const handleSave = () => {
+    const entries: Omit<TravelTime, 'id'>[] = [];
+    sortedApartments.forEach((apartmentA, i) => {
+      sortedApartments.slice(i + 1).forEach(apartmentB => {
+        entries.push({
+          apartmentIds: [apartmentA.id, apartmentB.id],
+          minutes: getTravelTime(draft, apartmentA.id, apartmentB.id)
+        });
+      });
+    });
+    onSave(entries);
+  };
+
+  if (sortedApartments.length < 2) {
+    return (
+      <p className="px-6 py-4 text-sm text-gray-500">
+        Add at least two pools to set travel times between them.
+      </p>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <p className="text-sm text-gray-600 mb-4">
+        Minutes the coach needs to travel between two pools. Pairs that were never set use {DEFAULT_TRAVEL_TIME_BUFFER} minutes.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="py-2 px-3"></th>
+              {sortedApartments.map(apartment => (
+                <th key={apartment.id} className="py-2 px-3 text-left font-medium text-gray-500 whitespace-nowrap">
+                  {apartment.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedApartments.map((rowApartment, rowIndex) => (
+              <tr key={rowApartment.id} className="border-t border-gray-100">
+                <th className="py-2 px-3 text-left font-medium text-gray-700 whitespace-nowrap">
+                  {rowApartment.name}
+                </th>
+                {sortedApartments.map((columnApartment, columnIndex) => {
+                  const minutes = getTravelTime(draft, rowApartment.id, columnApartment.id);
+
+                  return (
+                    <td key={columnApartment.id} className="py-2 px-3">
+                      {columnIndex === rowIndex ? (
+                        <span className="text-gray-400">—</span>
+                      ) : columnIndex > rowIndex ? (
+                        <input
+                          type="number"
+                          min={0}
+                          max={240}
+                          value={minutes}
+                          onChange={(e) => handleChange(rowApartment.id, columnApartment.id, e.target.value)}
+                          className="w-20 shadow-sm border-gray-300 rounded-md p-1 border"
+                          aria-label={`Travel minutes between ${rowApartment.name} and ${columnApartment.name}`}
+                        />
+                      ) : (
+                        <span className="text-gray-500">{minutes}</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end pt-4">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Travel Times'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TravelTimeEditor;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { format } from 'date-fns';
+import type { Apartment, Booking, WaitlistEntry } from '../types';
+import { groupWaitlist } from '../utils/waitlistUtils';
+
+interface WaitlistPanelProps {
+  entries: WaitlistEntry[]; // every entry of the day
+  bookings: Booking[];      // the day's bookings, for the offers' expiry times
+  apartments: Apartment[];
+}
+
+const ENTRY_STATUS_LABELS: Record<WaitlistEntry['status'], string> = {
+  waiting: 'Waiting',
+  offered: 'Offered',
+  booked: 'Took the slot',
+  passed: 'Passed',
+  withdrawn: 'Left'
+};
+
+/**
+ * A day's waitlists, one per booked slot or time window, in queue order
+ *
+ * Residents who left or passed on their offer stay listed, greyed out, so the admin
+ * can see how each slot was handed down.
+ */
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({ entries, bookings, apartments }) => {
+  const groups = groupWaitlist(entries);
+  if (groups.length === 0) {
+    return null;
+  }
+
+  const getOfferExpiry = (entry: WaitlistEntry): string | null => {
+    const offer = bookings.find(booking => booking.id === entry.offerBookingId);
+    return offer?.offerExpiresAt ? format(offer.offerExpiresAt, 'HH:mm') : null;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+      <h2 className="text-lg font-semibold px-4 py-3 border-b border-gray-200">Waitlists</h2>
+      <div className="divide-y divide-gray-200">
+        {groups.map(group => {
+          let position = 0;
+          return (
+            <div key={`${group.apartmentId}_${group.startTime}_${group.endTime}`} className="px-4 py-3">
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                {apartments.find(apt => apt.id === group.apartmentId)?.name || group.apartmentId} ·{' '}
+                {group.startTime} - {group.endTime}
+              </h3>
+              <ol className="space-y-1">
+                {group.entries.map(entry => {
+                  const isInLine = entry.status === 'waiting' || entry.status === 'offered';
+                  if (isInLine) position += 1;
+                  const expiry = entry.status === 'offered' ? getOfferExpiry(entry) : null;
+
+                  return (
+                    <li
+                      key={entry.id}
+                      className={`flex justify-between text-sm ${isInLine ? 'text-gray-800' : 'text-gray-400'}`}
+                    >
+                      <span>
+                        {isInLine ? `${position}. ` : ''}{entry.userName || entry.userId}
+                        <span className="ml-2 text-xs text-gray-500">
+                          joined {format(entry.createdAt, 'MMM d, HH:mm')}
+                        </span>
+                      </span>
+                      <span className={entry.status === 'offered' ? 'text-sky-700 font-medium' : ''}>
+                        {ENTRY_STATUS_LABELS[entry.status]}
+                        {expiry && ` until ${expiry}`}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { format, addDays, isSameDay } from 'date-fns';
+import type { Apartment, Booking, Closure, Instructor, TravelTimeMatrix } from '../types';
+import {
+  isActiveBooking,
+  countAvailableSlots,
+  getCoachBookings,
+  getDefaultCoachId
+} from '../utils/timeSlotUtils';
+import { findClosure } from '../utils/closureUtils';
+
+interface WeekViewProps {
+  apartments: Apartment[];
+  bookings: Booking[]; // every booking of the week
+  userHomeLocation: string;
+  weekStart: Date;
+  travelTimes?: TravelTimeMatrix;
+  closures?: Closure[];
+  instructors?: Instructor[];
+  coachFilter?: string; // show a single coach's availability, or every coach's when empty
+  slotDuration?: number; // count slots of a lesson type's length instead of each pool's
+  onWeekChange: (weekStart: Date) => void;
+  onSelectDay: (date: Date) => void;
+}
+
+/**
+ * Seven days of availability per apartment, one compact cell per pool and day
+ *
+ * Each cell counts the free start times, worked out with the same rules as the day grid.
+ * Clicking a day or a cell opens that day's detailed grid.
+ */
+const WeekView: React.FC<WeekViewProps> = ({
+  apartments,
+  bookings,
+  userHomeLocation,
+  weekStart,
+  travelTimes = {},
+  closures = [],
+  instructors = [],
+  coachFilter = '',
+  slotDuration,
+  onWeekChange,
+  onSelectDay
+}) => {
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const today = new Date();
+
+  // Coaches whose availability is shown, and the bookings that take up their time
+  const defaultCoachId = getDefaultCoachId(instructors);
+  const shownCoaches = coachFilter
+    ? instructors.filter(instructor => instructor.id === coachFilter)
+    : instructors;
+  const activeBookings = getCoachBookings(bookings.filter(isActiveBooking), coachFilter || undefined, defaultCoachId);
+
+  // Sort apartments to show user's home location first
+  const sortedApartments = [...apartments].sort((a, b) => {
+    if (a.id === userHomeLocation) return -1;
+    if (b.id === userHomeLocation) return 1;
+    return a.name.localeCompare(b.name);
+  });
+
+  const renderCell = (apartment: Apartment, day: Date) => {
+    const date = format(day, 'yyyy-MM-dd');
+    const closure = findClosure(closures, apartment.id, date);
+    if (closure) {
+      return (
+        <div className="rounded-md px-2 py-2 bg-purple-100 text-purple-800" title={closure.reason}>
+          <div className="text-xs font-medium">Pool Closed</div>
+          <div className="text-xs truncate">{closure.reason}</div>
+        </div>
+      );
+    }
+
+    const { free, total } = countAvailableSlots(
+      apartment,
+      date,
+      activeBookings,
+      closures,
+      travelTimes,
+      shownCoaches,
+      defaultCoachId,
+      slotDuration
+    );
+    if (total === 0) {
+      return (
+        <div className="rounded-md px-2 py-2 bg-gray-50 text-gray-400">
+          <div className="text-xs font-medium">Closed</div>
+        </div>
+      );
+    }
+
+    return (
+      <div className={`rounded-md px-2 py-2 ${free > 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+        <div className="text-xs font-medium">{free > 0 ? `${free} free` : 'Full'}</div>
+        <div className="text-xs">of {total} start times</div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">
+          Week of {format(weekStart, 'MMMM d, yyyy')}
+        </h2>
+        <div className="flex items-center">
+          <button
+            onClick={() => onWeekChange(addDays(weekStart, -7))}
+            className="px-3 py-2 rounded-l-lg border border-gray-300 hover:bg-gray-100 text-sm"
+          >
+            Previous Week
+          </button>
+          <button
+            onClick={() => onWeekChange(addDays(weekStart, 7))}
+            className="px-3 py-2 rounded-r-lg border-t border-b border-r border-gray-300 hover:bg-gray-100 text-sm"
+          >
+            Next Week
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto mb-6">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="bg-gray-50 border-b border-gray-200">
+              <th className="py-3 px-4 text-left font-medium text-gray-500">Pool</th>
+              {days.map(day => (
+                <th key={day.toISOString()} className="py-2 px-2 text-center min-w-[90px]">
+                  <button
+                    onClick={() => onSelectDay(day)}
+                    className={`w-full rounded-md px-2 py-1 hover:bg-gray-100 ${isSameDay(day, today) ? 'text-blue-600' : 'text-gray-700'}`}
+                    title="Open this day's schedule"
+                  >
+                    <div className="text-xs font-medium uppercase">{format(day, 'EEE')}</div>
+                    <div className="text-sm font-semibold">{format(day, 'MMM d')}</div>
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedApartments.map(apartment => (
+              <tr key={apartment.id} className="border-b border-gray-100">
+                <td className="py-2 px-4 text-sm font-medium text-gray-700 border-r border-gray-200 whitespace-nowrap">
+                  {apartment.name}
+                  {apartment.id === userHomeLocation && (
+                    <span className="ml-1 px-1.5 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full">
+                      Home
+                    </span>
+                  )}
+                </td>
+                {days.map(day => (
+                  <td
+                    key={day.toISOString()}
+                    className="py-2 px-2 cursor-pointer hover:opacity-80"
+                    onClick={() => onSelectDay(day)}
+                  >
+                    {renderCell(apartment, day)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default WeekView;
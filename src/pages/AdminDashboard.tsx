@@ -1,13 +1,104 @@
 import React, { useState, useEffect } from 'react';
-import { format } from 'date-fns';
-import { getApartments, getBookingsByDate, addBooking, updateBooking, deleteBooking } from '../services/firestoreService';
-import type { Apartment, Booking } from '../types';
+import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
+import {
+  getApartments,
+  getInstructors,
+  getLessonTypes,
+  getAllStudents,
+  getTravelTimes,
+  getClosuresInRange,
+  getClosuresByDate,
+  getBookingsByDate,
+  getBookingsInRange,
+  addBooking,
+  updateBooking,
+  deleteBooking,
+  updateBookingOccurrence,
+  deleteBookingOccurrence,
+  getBookingRequests,
+  approveBooking,
+  declineBooking,
+  transitionBooking,
+  cancelFollowingOccurrences,
+  getWaitlistByDate,
+  expireWaitlistOffers,
+  clearExpiredHolds,
+  BookingConflictError,
+  BookingClosedError,
+  CoachLimitError
+} from '../services/firestoreService';
+import {
+  SLOT_START_STEP,
+  describeBookingConflict,
+  getTimeOptions,
+  timeToMinutes,
+  minutesToTime
+} from '../utils/timeSlotUtils';
+import { describeClosure } from '../utils/closureUtils';
+import { isGeneratedOccurrence, describeRecurrence } from '../utils/recurrenceUtils';
+import {
+  DEFAULT_LESSON_TYPES,
+  getLessonType,
+  getLessonTypeName,
+  describeLessonType,
+  getSlotCapacity,
+  isGroupBooking
+} from '../utils/lessonTypeUtils';
+import { describeStudent, hasStudent } from '../utils/studentUtils';
+import { isSlotInWaitlistEntry } from '../utils/waitlistUtils';
+import {
+  STATUS_BADGE_CLASSES,
+  STATUS_LABELS,
+  TRANSITION_ACTION_LABELS,
+  getAvailableTransitions
+} from '../utils/bookingStatusUtils';
+import { useAuth } from '../contexts/AuthContext';
+import type {
+  Apartment,
+  Booking,
+  BookingActor,
+  BookingStatus,
+  Closure,
+  Instructor,
+  LessonType,
+  RecurrenceRule,
+  RecurrenceScope,
+  Student,
+  TravelTimeMatrix,
+  WaitlistEntry
+} from '../types';
 import DatePicker from '../components/DatePicker';
+import DirectBookingGrid from '../components/DirectBookingGrid';
+import ApprovalQueue from '../components/ApprovalQueue';
+import WaitlistPanel from '../components/WaitlistPanel';
+import LessonTypeDot from '../components/LessonTypeDot';
+import MonthCalendar from '../components/MonthCalendar';
+import RecurrenceScopeDialog from '../components/RecurrenceScopeDialog';
+import type { RecurrenceAction } from '../components/RecurrenceScopeDialog';
 
 const AdminDashboard: React.FC = () => {
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [apartments, setApartments] = useState<Apartment[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
+  const [lessonTypes, setLessonTypes] = useState<LessonType[]>(DEFAULT_LESSON_TYPES);
+  // Every resident's students, and the one whose lessons the day shows - empty for everyone
+  const [students, setStudents] = useState<Student[]>([]);
+  const [studentFilter, setStudentFilter] = useState<string>('');
+  const [travelTimes, setTravelTimes] = useState<TravelTimeMatrix>({});
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [moveError, setMoveError] = useState<string | null>(null);
+  // Month calendar showing which days are fully booked
+  const [calendarVisible, setCalendarVisible] = useState<boolean>(false);
+  const [monthBookings, setMonthBookings] = useState<Booking[]>([]);
+  const [monthClosures, setMonthClosures] = useState<Closure[]>([]);
+  const [isMonthLoading, setIsMonthLoading] = useState<boolean>(false);
+  // Residents' requests at pools where bookings need approval, across every date
+  const [requests, setRequests] = useState<Booking[]>([]);
+  const [processingRequestId, setProcessingRequestId] = useState<string | null>(null);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  // The day's waitlists, per slot
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -16,13 +107,31 @@ const AdminDashboard: React.FC = () => {
   const [selectedApartment, setSelectedApartment] = useState<string>('');
   const [startTime, setStartTime] = useState<string>('');
   const [endTime, setEndTime] = useState<string>('');
-  const [status, setStatus] = useState<'booked' | 'unavailable'>('booked');
+  // Lesson or block - a lesson's place in its lifecycle is changed from the bookings table
+  // New bookings are lessons or blocks, edited ones can move on in their lifecycle
+  const [status, setStatus] = useState<BookingStatus>('confirmed');
+  // Empty for the default coach on lessons and for every coach on blocks
+  const [coachId, setCoachId] = useState<string>('');
+  // Empty for lessons without a type, and for blocks
+  const [lessonTypeId, setLessonTypeId] = useState<string>('');
   const [editingBookingId, setEditingBookingId] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  // Recurrence of new bookings
+  const [repeatFrequency, setRepeatFrequency] = useState<'' | RecurrenceRule['frequency']>('');
+  const [repeatEnd, setRepeatEnd] = useState<'until' | 'count'>('count');
+  const [repeatUntil, setRepeatUntil] = useState<string>('');
+  const [repeatCount, setRepeatCount] = useState<number>(10);
+  // Pending edit or delete of a recurring lesson, waiting for the admin to pick a scope
+  const [scopePrompt, setScopePrompt] = useState<{ action: RecurrenceAction; booking: Booking } | null>(null);
   
-  // We'll use useAuth() if we need authentication context later
+  // Status changes are recorded against the signed-in admin
+  const { currentUser } = useAuth();
+  const actor: BookingActor = { id: currentUser?.uid || 'admin', role: 'admin' };
   
   // Format date as YYYY-MM-DD for Firestore queries
   const formattedDate = format(selectedDate, 'yyyy-MM-dd');
+  const editingBooking = bookings.find(b => b.id === editingBookingId);
+  const isBlock = status === 'unavailable';
   
   // Fetch apartments and bookings data
   useEffect(() => {
@@ -43,6 +152,25 @@ const AdminDashboard: React.FC = () => {
           return;
         }
         
+        const instructorsData = await getInstructors();
+        setInstructors(instructorsData);
+        
+        const lessonTypesData = await getLessonTypes();
+        setLessonTypes(lessonTypesData);
+        
+        const studentsData = await getAllStudents();
+        setStudents(studentsData);
+        
+        // Travel times and closures for the grid's drag-and-drop checks
+        const travelTimesData = await getTravelTimes();
+        setTravelTimes(travelTimesData);
+        const closuresData = await getClosuresByDate(formattedDate);
+        setClosures(closuresData);
+        
+        // Pass on waitlist offers that ran out before showing who holds each slot
+        await expireWaitlistOffers();
+        await clearExpiredHolds();
+        
         // Get bookings for the selected date
         const bookingsData = await getBookingsByDate(formattedDate);
         console.log('Admin Dashboard - Fetched bookings:', bookingsData);
@@ -59,66 +187,404 @@ const AdminDashboard: React.FC = () => {
     fetchData();
   }, [formattedDate]);
   
+  const monthStart = format(startOfWeek(startOfMonth(selectedDate), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  const monthEnd = format(endOfWeek(endOfMonth(selectedDate), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  
+  // Fetch every booking of the calendar month, again whenever the day's bookings change
+  useEffect(() => {
+    if (!calendarVisible) return;
+    
+    const fetchMonth = async () => {
+      try {
+        setIsMonthLoading(true);
+        const monthBookingsData = await getBookingsInRange(monthStart, monthEnd);
+        setMonthBookings(monthBookingsData);
+        const monthClosuresData = await getClosuresInRange(monthStart, monthEnd);
+        setMonthClosures(monthClosuresData);
+      } catch (error) {
+        console.error('Error fetching month:', error);
+      } finally {
+        setIsMonthLoading(false);
+      }
+    };
+    
+    fetchMonth();
+  }, [calendarVisible, monthStart, monthEnd, bookings]);
+  
+  // Fetch the pending requests, again whenever the day's bookings change
+  useEffect(() => {
+    const fetchRequests = async () => {
+      try {
+        const requestsData = await getBookingRequests();
+        setRequests(requestsData);
+      } catch (error) {
+        console.error('Error fetching booking requests:', error);
+      }
+    };
+    
+    fetchRequests();
+  }, [bookings]);
+  
+  // Fetch the day's waitlists, again whenever the day's bookings change
+  useEffect(() => {
+    const fetchWaitlist = async () => {
+      try {
+        const waitlistData = await getWaitlistByDate(formattedDate);
+        setWaitlist(waitlistData);
+      } catch (error) {
+        console.error('Error fetching waitlist:', error);
+      }
+    };
+    
+    fetchWaitlist();
+  }, [formattedDate, bookings]);
+  
   const handleDateChange = (date: Date) => {
     setSelectedDate(date);
   };
   
-  const handleAddBooking = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!selectedApartment || !startTime || !endTime) {
-      return;
-    }
-    
+  const refreshBookings = async () => {
+    const updatedBookings = await getBookingsByDate(formattedDate);
+    setBookings(updatedBookings);
+  };
+  
+  const saveBooking = async (scope: RecurrenceScope = 'this') => {
     try {
+      setFormError(null);
+      // Edited bookings keep their stored status - it only changes through the lifecycle
       const newBooking = {
         apartmentId: selectedApartment,
         date: formattedDate,
         startTime,
         endTime,
-        status,
-        bookedBy: editingBookingId ? bookings.find(b => b.id === editingBookingId)?.bookedBy || 'admin' : 'admin'
+        ...(editingBooking ? {} : { status }),
+        bookedBy: editingBooking?.bookedBy || 'admin',
+        ...(coachId ? { coachId } : {}),
+        ...(lessonTypeId && !isBlock ? { lessonTypeId, capacity: getFormCapacity() } : {})
       };
+      // Going back to the default coach (or every coach, for blocks) removes the stored one,
+      // and the same goes for the lesson type
+      const clearedFields: (keyof Booking)[] = [
+        ...(coachId ? [] : ['coachId' as const]),
+        ...(lessonTypeId && !isBlock ? [] : ['lessonTypeId' as const, 'capacity' as const])
+      ];
       
-      if (editingBookingId) {
-        await updateBooking(editingBookingId, newBooking);
+      if (editingBooking && isGeneratedOccurrence(editingBooking)) {
+        // The date stays with the occurrence being edited
+        await updateBookingOccurrence(editingBooking, { ...newBooking, date: editingBooking.date }, scope, clearedFields);
+      } else if (editingBookingId) {
+        await updateBooking(editingBookingId, newBooking, clearedFields);
+      } else if (repeatFrequency) {
+        const recurrence: RecurrenceRule = repeatEnd === 'until'
+          ? { frequency: repeatFrequency, until: repeatUntil }
+          : { frequency: repeatFrequency, count: repeatCount };
+        await addBooking({ ...newBooking, recurrence });
       } else {
         await addBooking(newBooking);
       }
       
-      // Refresh bookings
-      const updatedBookings = await getBookingsByDate(formattedDate);
-      setBookings(updatedBookings);
+      await refreshBookings();
       
       // Reset form
       resetForm();
     } catch (error) {
+      if (error instanceof BookingConflictError) {
+        // Keep the form open so the admin can pick another time
+        setFormError(describeBookingConflict(error.conflict, apartments));
+        return;
+      }
+      if (error instanceof BookingClosedError) {
+        setFormError(`${describeClosure(error.closure, apartments)}.`);
+        return;
+      }
+      if (error instanceof CoachLimitError) {
+        setFormError(error.message);
+        return;
+      }
       setError('Failed to save booking.');
       console.error('Error saving booking:', error);
     }
   };
   
+  // Bookings keep the capacity of their type from when they were booked
+  const getFormCapacity = (): number | undefined => {
+    if (editingBooking && editingBooking.lessonTypeId === lessonTypeId) {
+      return editingBooking.capacity;
+    }
+    return lessonTypes.find(lessonType => lessonType.id === lessonTypeId)?.capacity;
+  };
+  
+  // A lesson of a type lasts the type's length, or the pool's slot length for types without one
+  const applyLessonLength = (start: string, typeId: string, apartmentId: string) => {
+    const lessonType = lessonTypes.find(type => type.id === typeId);
+    const apartment = apartments.find(apt => apt.id === apartmentId);
+    const duration = lessonType?.duration || apartment?.defaultSlotDuration;
+    if (!lessonType || !start || !duration) return;
+    setEndTime(minutesToTime(timeToMinutes(start) + duration));
+  };
+  
+  const handleAddBooking = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!selectedApartment || !startTime || !endTime) {
+      return;
+    }
+    
+    if (repeatFrequency && repeatEnd === 'until' && !repeatUntil) {
+      setFormError('Please choose when the recurring lessons end.');
+      return;
+    }
+    
+    // A status change is a lifecycle move, recorded in the booking's history - made on
+    // its own, since it may split an occurrence off its series
+    if (editingBooking && status !== (editingBooking.status || 'confirmed')) {
+      const hasOtherChanges = selectedApartment !== editingBooking.apartmentId ||
+        startTime !== editingBooking.startTime ||
+        endTime !== editingBooking.endTime ||
+        coachId !== (editingBooking.coachId || '') ||
+        lessonTypeId !== (editingBooking.lessonTypeId || '');
+      if (hasOtherChanges) {
+        setFormError('Please save the pool, time, coach and lesson type first, then change the status.');
+        return;
+      }
+      resetForm();
+      await handleTransition(editingBooking, status);
+      return;
+    }
+    
+    // Edits to a recurring lesson need to know which occurrences they apply to
+    if (editingBooking && isGeneratedOccurrence(editingBooking)) {
+      setScopePrompt({ action: 'edit', booking: editingBooking });
+      return;
+    }
+    
+    await saveBooking();
+  };
+  
+  // A booking dragged on the grid keeps its length, coach and everything else
+  const handleBookingMove = async (booking: Booking, apartmentId: string, newStartTime: string) => {
+    const duration = timeToMinutes(booking.endTime) - timeToMinutes(booking.startTime);
+    const changes = {
+      apartmentId,
+      startTime: newStartTime,
+      endTime: minutesToTime(timeToMinutes(newStartTime) + duration)
+    };
+    
+    try {
+      setMoveError(null);
+      if (isGeneratedOccurrence(booking)) {
+        // Only the dragged lesson of a recurring series moves
+        await updateBookingOccurrence(booking, changes, 'this');
+      } else {
+        await updateBooking(booking.id, changes);
+      }
+      await refreshBookings();
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        setMoveError(describeBookingConflict(error.conflict, apartments));
+      } else if (error instanceof BookingClosedError) {
+        setMoveError(`${describeClosure(error.closure, apartments)}.`);
+      } else if (error instanceof CoachLimitError) {
+        setMoveError(error.message);
+      } else {
+        setMoveError('Failed to move booking.');
+        console.error('Error moving booking:', error);
+      }
+      // Someone else may have booked in the meantime
+      await refreshBookings();
+    }
+  };
+  
+  // Approving re-checks the request, since the schedule may have changed since it was made
+  const handleApproveRequest = async (booking: Booking) => {
+    try {
+      setProcessingRequestId(booking.id);
+      setRequestError(null);
+      await approveBooking(booking, actor);
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        setRequestError(`Can't approve this request: ${describeBookingConflict(error.conflict, apartments)}`);
+      } else if (error instanceof BookingClosedError) {
+        setRequestError(`Can't approve this request: ${describeClosure(error.closure, apartments)}.`);
+      } else if (error instanceof CoachLimitError) {
+        setRequestError(`Can't approve this request: ${error.message}`);
+      } else {
+        setRequestError(error instanceof Error ? error.message : 'Failed to approve the request.');
+        console.error('Error approving request:', error);
+      }
+    } finally {
+      setProcessingRequestId(null);
+      await refreshBookings();
+    }
+  };
+  
+  const handleDeclineRequest = async (booking: Booking, reason: string) => {
+    try {
+      setProcessingRequestId(booking.id);
+      setRequestError(null);
+      await declineBooking(booking, reason, actor);
+    } catch (error) {
+      setRequestError(error instanceof Error ? error.message : 'Failed to decline the request.');
+      console.error('Error declining request:', error);
+    } finally {
+      setProcessingRequestId(null);
+      await refreshBookings();
+    }
+  };
+  
+  // Tooltip for a booking's status - who changed it last and when
+  const describeLastTransition = (booking: Booking): string | undefined => {
+    const last = booking.history?.[booking.history.length - 1];
+    if (!last) return booking.declineReason;
+    if (last.role === 'system') {
+      return `Changed automatically on ${format(last.at, 'MMM d, yyyy HH:mm')}${last.reason ? `: ${last.reason}` : ''}`;
+    }
+    const by = last.role === 'admin' ? 'an admin' : 'the resident';
+    return `Changed by ${by} on ${format(last.at, 'MMM d, yyyy HH:mm')}${last.reason ? `: ${last.reason}` : ''}`;
+  };
+  
+  // Type badge for the bookings table, with the group's size - nothing for untyped private lessons
+  const renderLessonTypeBadge = (booking: Booking) => {
+    if (!booking.lessonTypeId) return null;
+    const lessonType = getLessonType(booking, lessonTypes);
+    return (
+      <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
+        {lessonType && <LessonTypeDot color={lessonType.color} />}
+        {getLessonTypeName(booking, lessonTypes)}
+        {isGroupBooking(booking) && ` · ${getSlotCapacity(booking)} spots`}
+      </span>
+    );
+  };
+  
+  // Who booked the lesson, and the students it's for with their details for the coach
+  const renderBookedBy = (booking: Booking) => {
+    if (booking.bookedBy === 'admin') return 'Admin';
+    return (
+      <>
+        {booking.userName || 'User'}
+        {booking.students?.map(bookingStudent => {
+          const student = students.find(s => s.id === bookingStudent.id);
+          return (
+            <div key={bookingStudent.id} className="text-gray-900" title={student ? describeStudent(student) : undefined}>
+              {bookingStudent.name}
+              {student?.medicalNotes && <span className="ml-1 text-red-600" aria-label="Has medical notes">*</span>}
+            </div>
+          );
+        })}
+      </>
+    );
+  };
+  
+  // Lifecycle actions from the bookings table - approving goes through the same checks as the queue
+  const handleTransition = async (booking: Booking, to: BookingStatus) => {
+    if (to === 'confirmed') {
+      await handleApproveRequest(booking);
+      return;
+    }
+    if (to === 'declined') {
+      const reason = window.prompt('Reason for declining (optional):');
+      if (reason === null) return;
+      await handleDeclineRequest(booking, reason);
+      return;
+    }
+    // Cancelling a recurring lesson can also end the rest of its series
+    if (to === 'cancelled-by-coach' && isGeneratedOccurrence(booking)) {
+      setScopePrompt({ action: 'cancel', booking });
+      return;
+    }
+    if (to === 'cancelled-by-coach' && !window.confirm('Cancel this lesson? The resident will see it as cancelled by the coach.')) {
+      return;
+    }
+    await applyTransition(booking, to);
+  };
+  
+  // Make the status change once the admin has confirmed it
+  const applyTransition = async (booking: Booking, to: BookingStatus) => {
+    // The freed slot only goes to the waitlist when the coach can still teach it
+    const hasWaitingResidents = waitlist.some(entry => entry.status === 'waiting' && isSlotInWaitlistEntry(entry, booking));
+    const releaseToWaitlist = to === 'cancelled-by-coach' && hasWaitingResidents &&
+      window.confirm('Offer the freed slot to the next resident on its waitlist? Choose Cancel if the coach isn\'t available then.');
+    
+    try {
+      await transitionBooking(booking, to, actor, undefined, releaseToWaitlist);
+      await refreshBookings();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update booking.');
+      console.error('Error updating booking status:', error);
+    }
+  };
+  
+  // Clicking a free slot on the grid starts a booking there
+  const handleSlotClick = (apartmentId: string, slotStartTime: string, slotEndTime: string) => {
+    resetForm();
+    setSelectedApartment(apartmentId);
+    setStartTime(slotStartTime);
+    setEndTime(slotEndTime);
+    setFormVisible(true);
+  };
+  
   const handleEditBooking = (booking: Booking) => {
     setSelectedApartment(booking.apartmentId);
     setStartTime(booking.startTime);
     setEndTime(booking.endTime);
-    setStatus(booking.status as 'booked' | 'unavailable');
+    setStatus(booking.status || 'confirmed');
+    setCoachId(booking.coachId || '');
+    setLessonTypeId(booking.lessonTypeId || '');
     setEditingBookingId(booking.id);
     setFormVisible(true);
   };
   
-  const handleDeleteBooking = async (id: string) => {
-    if (window.confirm('Are you sure you want to delete this booking?')) {
-      try {
-        await deleteBooking(id);
-        
-        // Refresh bookings
-        const updatedBookings = await getBookingsByDate(formattedDate);
-        setBookings(updatedBookings);
-      } catch (error) {
-        setError('Failed to delete booking.');
-        console.error('Error deleting booking:', error);
-      }
+  const removeBooking = async (remove: () => Promise<void>) => {
+    try {
+      await remove();
+      await refreshBookings();
+    } catch (error) {
+      setError('Failed to delete booking.');
+      console.error('Error deleting booking:', error);
+    }
+  };
+  
+  // Only blocks are deleted - lessons are cancelled, so their history stays on record
+  const handleDeleteBooking = async (booking: Booking) => {
+    if (booking.status !== 'unavailable') return;
+    
+    if (isGeneratedOccurrence(booking)) {
+      setScopePrompt({ action: 'delete', booking });
+      return;
+    }
+    
+    if (window.confirm('Are you sure you want to delete this block?')) {
+      await removeBooking(() => deleteBooking(booking.id));
+    }
+  };
+  
+  // The resident sees the cancelled lessons as cancelled by the coach
+  const handleCancelOccurrence = async (booking: Booking, scope: RecurrenceScope) => {
+    if (scope === 'this') {
+      await applyTransition(booking, 'cancelled-by-coach');
+      return;
+    }
+    
+    try {
+      await cancelFollowingOccurrences(booking, actor);
+      await refreshBookings();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to cancel the lessons.');
+      console.error('Error cancelling booking occurrences:', error);
+    }
+  };
+  
+  const handleScopeSelected = async (scope: RecurrenceScope) => {
+    if (!scopePrompt) return;
+    const { action, booking } = scopePrompt;
+    setScopePrompt(null);
+    
+    if (action === 'edit') {
+      await saveBooking(scope);
+    } else if (action === 'cancel') {
+      await handleCancelOccurrence(booking, scope);
+    } else {
+      await removeBooking(() => deleteBookingOccurrence(booking, scope));
     }
   };
   
@@ -126,32 +592,21 @@ const AdminDashboard: React.FC = () => {
     setSelectedApartment('');
     setStartTime('');
     setEndTime('');
-    setStatus('booked');
+    setStatus('confirmed');
+    setCoachId('');
+    setLessonTypeId('');
+    setRepeatFrequency('');
+    setRepeatEnd('count');
+    setRepeatUntil('');
+    setRepeatCount(10);
     setEditingBookingId(null);
+    setFormError(null);
     setFormVisible(false);
   };
   
-  const generateTimeOptions = () => {
-    const options = [];
-    let hour = 8; // 8 AM start
-    let minute = 0;
-    
-    while (hour < 22 || (hour === 22 && minute === 0)) { // 10 PM end
-      const formattedHour = hour.toString().padStart(2, '0');
-      const formattedMinute = minute.toString().padStart(2, '0');
-      options.push(`${formattedHour}:${formattedMinute}`);
-      
-      minute += 30;
-      if (minute === 60) {
-        hour += 1;
-        minute = 0;
-      }
-    }
-    
-    return options;
-  };
-  
-  const timeOptions = generateTimeOptions();
+  // Lessons start on the same step as the grid's slots
+  const timeOptions = getTimeOptions(SLOT_START_STEP);
+  const shownBookings = studentFilter ? bookings.filter(booking => hasStudent(booking, studentFilter)) : bookings;
   
   return (
     <div className="bg-gray-50 min-h-screen">
@@ -159,11 +614,45 @@ const AdminDashboard: React.FC = () => {
         <h1 className="text-2xl font-semibold text-gray-900 mb-6">Admin Dashboard</h1>
         
         <div className="px-4 py-6 sm:px-0">
+          <ApprovalQueue
+            requests={requests}
+            apartments={apartments}
+            instructors={instructors}
+            processingId={processingRequestId}
+            error={requestError}
+            onApprove={handleApproveRequest}
+            onDecline={handleDeclineRequest}
+          />
+          
           <div className="mb-6">
             <DatePicker 
               selectedDate={selectedDate}
               onDateChange={handleDateChange}
             />
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={() => setCalendarVisible(!calendarVisible)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                {calendarVisible ? 'Hide Month Calendar' : 'Show Month Calendar'}
+              </button>
+            </div>
+            {calendarVisible && (
+              <div className="mt-2">
+                <MonthCalendar
+                  month={selectedDate}
+                  selectedDate={selectedDate}
+                  apartments={apartments}
+                  bookings={monthBookings}
+                  travelTimes={travelTimes}
+                  closures={monthClosures}
+                  instructors={instructors}
+                  isLoading={isMonthLoading}
+                  onMonthChange={handleDateChange}
+                  onSelectDate={handleDateChange}
+                />
+              </div>
+            )}
           </div>
           
           {loading ? (
@@ -184,6 +673,19 @@ const AdminDashboard: React.FC = () => {
                 <h2 className="text-xl font-semibold">
                   Bookings for {format(selectedDate, 'MMMM d, yyyy')}
                 </h2>
+                {students.length > 0 && (
+                  <select
+                    value={studentFilter}
+                    onChange={(e) => setStudentFilter(e.target.value)}
+                    className="ml-auto mr-3 shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    aria-label="Student"
+                  >
+                    <option value="">All students</option>
+                    {students.map(student => (
+                      <option key={student.id} value={student.id}>{student.name}</option>
+                    ))}
+                  </select>
+                )}
                 <button
                   onClick={() => setFormVisible(!formVisible)}
                   className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
@@ -203,7 +705,10 @@ const AdminDashboard: React.FC = () => {
                       <label className="block text-sm font-medium text-gray-700 mb-1">Apartment</label>
                       <select
                         value={selectedApartment}
-                        onChange={(e) => setSelectedApartment(e.target.value)}
+                        onChange={(e) => {
+                          setSelectedApartment(e.target.value);
+                          applyLessonLength(startTime, lessonTypeId, e.target.value);
+                        }}
                         className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                         required
                       >
@@ -221,7 +726,10 @@ const AdminDashboard: React.FC = () => {
                         <label className="block text-sm font-medium text-gray-700 mb-1">Start Time</label>
                         <select
                           value={startTime}
-                          onChange={(e) => setStartTime(e.target.value)}
+                          onChange={(e) => {
+                            setStartTime(e.target.value);
+                            applyLessonLength(e.target.value, lessonTypeId, selectedApartment);
+                          }}
                           className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                           required
                         >
@@ -256,15 +764,135 @@ const AdminDashboard: React.FC = () => {
                       <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
                       <select
                         value={status}
-                        onChange={(e) => setStatus(e.target.value as 'booked' | 'unavailable')}
+                        onChange={(e) => setStatus(e.target.value as BookingStatus)}
                         className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                         required
                       >
-                        <option value="booked">Booked</option>
-                        <option value="unavailable">Unavailable</option>
+                        {editingBooking ? (
+                          <>
+                            <option value={editingBooking.status || 'confirmed'}>
+                              {STATUS_LABELS[editingBooking.status || 'confirmed']}
+                            </option>
+                            {getAvailableTransitions(editingBooking, 'admin').map(to => (
+                              <option key={to} value={to}>{STATUS_LABELS[to]}</option>
+                            ))}
+                          </>
+                        ) : (
+                          <>
+                            <option value="confirmed">Lesson</option>
+                            <option value="unavailable">Unavailable</option>
+                          </>
+                        )}
                       </select>
                     </div>
                     
+                    {!isBlock && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Lesson Type</label>
+                        <select
+                          value={lessonTypeId}
+                          onChange={(e) => {
+                            setLessonTypeId(e.target.value);
+                            applyLessonLength(startTime, e.target.value, selectedApartment);
+                          }}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        >
+                          <option value="">No lesson type</option>
+                          {lessonTypes.map((lessonType) => (
+                            <option key={lessonType.id} value={lessonType.id}>
+                              {describeLessonType(lessonType)}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    
+                    {instructors.length > 0 && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Coach</label>
+                        <select
+                          value={coachId}
+                          onChange={(e) => setCoachId(e.target.value)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                        >
+                          <option value="">{status === 'unavailable' ? 'All coaches' : 'Default coach'}</option>
+                          {instructors.map((instructor) => (
+                            <option key={instructor.id} value={instructor.id}>
+                              {instructor.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    
+                    {!editingBookingId && (
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Repeat</label>
+                          <select
+                            value={repeatFrequency}
+                            onChange={(e) => setRepeatFrequency(e.target.value as '' | RecurrenceRule['frequency'])}
+                            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                          >
+                            <option value="">Does not repeat</option>
+                            <option value="weekly">Every week</option>
+                            <option value="fortnightly">Every two weeks</option>
+                          </select>
+                        </div>
+                        
+                        {repeatFrequency && (
+                          <>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                              <select
+                                value={repeatEnd}
+                                onChange={(e) => setRepeatEnd(e.target.value as 'until' | 'count')}
+                                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              >
+                                <option value="count">After a number of lessons</option>
+                                <option value="until">On a date</option>
+                              </select>
+                            </div>
+                            
+                            <div>
+                              {repeatEnd === 'count' ? (
+                                <>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Number of lessons</label>
+                                  <input
+                                    type="number"
+                                    min={2}
+                                    max={104}
+                                    value={repeatCount}
+                                    onChange={(e) => setRepeatCount(Number(e.target.value))}
+                                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                                    required
+                                  />
+                                </>
+                              ) : (
+                                <>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Last lesson on or before</label>
+                                  <input
+                                    type="date"
+                                    min={formattedDate}
+                                    value={repeatUntil}
+                                    onChange={(e) => setRepeatUntil(e.target.value)}
+                                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                                    required
+                                  />
+                                </>
+                              )}
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    
+                    {formError && (
+                      <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm" role="alert">
+                        {formError}
+                      </div>
+                    )}
+                    
                     <div className="flex justify-end space-x-3">
                       <button
                         type="button"
@@ -284,6 +912,29 @@ const AdminDashboard: React.FC = () => {
                 </div>
               )}
               
+              {/* Schedule Grid - drag a booking to move it */}
+              {moveError && (
+                <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-sm" role="alert">
+                  {moveError}
+                </div>
+              )}
+              <DirectBookingGrid
+                apartments={apartments}
+                bookings={bookings}
+                userHomeLocation=""
+                date={selectedDate}
+                travelTimes={travelTimes}
+                closures={closures}
+                instructors={instructors}
+                lessonTypes={lessonTypes}
+                studentFilter={studentFilter}
+                showAllNames
+                onSlotClick={handleSlotClick}
+                onBookingMove={handleBookingMove}
+              />
+              
+              <WaitlistPanel entries={waitlist} bookings={bookings} apartments={apartments} />
+              
               {/* Bookings Table */}
               <div className="bg-white shadow overflow-hidden rounded-md">
                 <table className="min-w-full divide-y divide-gray-200">
@@ -301,50 +952,77 @@ const AdminDashboard: React.FC = () => {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Booked By
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Coach
+                      </th>
                       <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Actions
                       </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {bookings.length === 0 ? (
+                    {shownBookings.length === 0 ? (
                       <tr>
-                        <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
-                          No bookings for this date.
+                        <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
+                          {studentFilter ? 'No lessons for this student on this date.' : 'No bookings for this date.'}
                         </td>
                       </tr>
                     ) : (
-                      bookings.map((booking) => (
+                      shownBookings.map((booking) => (
                         <tr key={booking.id}>
                           <td className="px-6 py-4 whitespace-nowrap">
                             {apartments.find(a => a.id === booking.apartmentId)?.name || booking.apartmentId}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             {booking.startTime} - {booking.endTime}
+                            {booking.recurrence && (
+                              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                                {describeRecurrence(booking.recurrence)}
+                              </span>
+                            )}
+                            {renderLessonTypeBadge(booking)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                              booking.status === 'booked' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
-                            }`}>
-                              {booking.status === 'booked' ? 'Booked' : 'Unavailable'}
+                            <span
+                              className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[booking.status || 'confirmed']}`}
+                              title={describeLastTransition(booking)}
+                            >
+                              {STATUS_LABELS[booking.status || 'confirmed']}
+                              {booking.lateCancellation && ' (late)'}
                             </span>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                            {booking.bookedBy === 'admin' ? 'Admin' : 'User'}
+                            {renderBookedBy(booking)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {booking.coachId
+                              ? instructors.find(i => i.id === booking.coachId)?.name || booking.coachId
+                              : booking.status === 'unavailable' ? 'All' : instructors[0]?.name || '-'}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            {getAvailableTransitions(booking, 'admin').map(to => (
+                              <button
+                                key={to}
+                                onClick={() => handleTransition(booking, to)}
+                                className="text-gray-700 hover:text-gray-900 mr-4"
+                              >
+                                {TRANSITION_ACTION_LABELS[to]}
+                              </button>
+                            ))}
                             <button
                               onClick={() => handleEditBooking(booking)}
                               className="text-blue-600 hover:text-blue-900 mr-4"
                             >
                               Edit
                             </button>
-                            <button
-                              onClick={() => handleDeleteBooking(booking.id)}
-                              className="text-red-600 hover:text-red-900"
-                            >
-                              Delete
-                            </button>
+                            {booking.status === 'unavailable' && (
+                              <button
+                                onClick={() => handleDeleteBooking(booking)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                Delete
+                              </button>
+                            )}
                           </td>
                         </tr>
                       ))
@@ -356,6 +1034,14 @@ const AdminDashboard: React.FC = () => {
           )}
         </div>
       </div>
+      
+      {scopePrompt && (
+        <RecurrenceScopeDialog
+          action={scopePrompt.action}
+          onSelect={handleScopeSelected}
+          onCancel={() => setScopePrompt(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,6 +1,20 @@
 import React, { useState, useEffect } from 'react';
-import { getApartments, addApartment, updateApartment } from '../services/firestoreService';
-import type { Apartment } from '../types';
+import {
+  getApartments,
+  addApartment,
+  updateApartment,
+  getTravelTimes,
+  saveTravelTimes,
+  getUpcomingClosures,
+  addClosure,
+  deleteClosure,
+  getBookingsAffectedByClosure
+} from '../services/firestoreService';
+import type { Apartment, Booking, Closure, DailyHours, SeasonalHours, TravelTime, TravelTimeMatrix, WeeklyHours } from '../types';
+import TravelTimeEditor from '../components/TravelTimeEditor';
+import ClosureEditor from '../components/ClosureEditor';
+import OperatingHoursEditor from '../components/OperatingHoursEditor';
+import { WEEKDAYS, formatHours } from '../utils/timeSlotUtils';
 
 const ApartmentManager: React.FC = () => {
   const [apartments, setApartments] = useState<Apartment[]>([]);
@@ -13,13 +27,101 @@ const ApartmentManager: React.FC = () => {
   const [startTime, setStartTime] = useState<string>('08:00');
   const [endTime, setEndTime] = useState<string>('20:00');
   const [slotDuration, setSlotDuration] = useState<number>(60);
+  const [cancellationCutoffHours, setCancellationCutoffHours] = useState<number>(0);
+  const [requiresApproval, setRequiresApproval] = useState<boolean>(false);
+  const [weeklyHours, setWeeklyHours] = useState<WeeklyHours>({});
+  const [seasonalHours, setSeasonalHours] = useState<SeasonalHours[]>([]);
   const [editingApartmentId, setEditingApartmentId] = useState<string | null>(null);
   
-  // Fetch apartments on component mount
+  // Travel times between pools
+  const [travelTimes, setTravelTimes] = useState<TravelTimeMatrix>({});
+  const [savingTravelTimes, setSavingTravelTimes] = useState<boolean>(false);
+  
+  // Maintenance and holiday closures
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [savingClosure, setSavingClosure] = useState<boolean>(false);
+  const [affectedBookings, setAffectedBookings] = useState<{ closure: Closure; bookings: Booking[] } | null>(null);
+  
+  // Fetch apartments, travel times and closures on component mount
   useEffect(() => {
     fetchApartments();
+    fetchTravelTimes();
+    fetchClosures();
   }, []);
   
+  const fetchClosures = async () => {
+    try {
+      const closuresData = await getUpcomingClosures();
+      setClosures(closuresData);
+    } catch (err) {
+      console.error('Error fetching closures:', err);
+      setError('Failed to load closures. Please try again.');
+    }
+  };
+  
+  const handleShowAffectedBookings = async (closure: Closure) => {
+    try {
+      const bookings = await getBookingsAffectedByClosure(closure);
+      setAffectedBookings({ closure, bookings });
+    } catch (err) {
+      console.error('Error fetching affected bookings:', err);
+      setError('Failed to load the lessons affected by this closure.');
+    }
+  };
+  
+  const handleAddClosure = async (closure: Omit<Closure, 'id' | 'createdAt'>) => {
+    try {
+      setSavingClosure(true);
+      const id = await addClosure(closure);
+      await fetchClosures();
+      // List the lessons that now fall inside the closure so the families can be contacted
+      await handleShowAffectedBookings({ ...closure, id, createdAt: new Date() });
+    } catch (err) {
+      console.error('Error adding closure:', err);
+      setError('Failed to add closure. Please try again.');
+    } finally {
+      setSavingClosure(false);
+    }
+  };
+  
+  const handleDeleteClosure = async (closure: Closure) => {
+    if (!window.confirm('Are you sure you want to delete this closure?')) return;
+    
+    try {
+      await deleteClosure(closure.id);
+      if (affectedBookings?.closure.id === closure.id) {
+        setAffectedBookings(null);
+      }
+      await fetchClosures();
+    } catch (err) {
+      console.error('Error deleting closure:', err);
+      setError('Failed to delete closure. Please try again.');
+    }
+  };
+  
+  const fetchTravelTimes = async () => {
+    try {
+      const travelTimesData = await getTravelTimes();
+      setTravelTimes(travelTimesData);
+    } catch (err) {
+      console.error('Error fetching travel times:', err);
+      setError('Failed to load travel times. Please try again.');
+    }
+  };
+  
+  const handleSaveTravelTimes = async (entries: Omit<TravelTime, 'id'>[]) => {
+    try {
+      setSavingTravelTimes(true);
+      await saveTravelTimes(entries);
+      await fetchTravelTimes();
+    } catch (err) {
+      console.error('Error saving travel times:', err);
+      setError('Failed to save travel times. Please try again.');
+    } finally {
+      setSavingTravelTimes(false);
+    }
+  };
+  
   const fetchApartments = async () => {
     try {
       setLoading(true);
@@ -42,6 +144,12 @@ const ApartmentManager: React.FC = () => {
       return;
     }
     
+    const hoursError = validateHours();
+    if (hoursError) {
+      setError(hoursError);
+      return;
+    }
+    
     try {
       setLoading(true);
       
@@ -50,6 +158,10 @@ const ApartmentManager: React.FC = () => {
         start: startTime,
         end: endTime,
         defaultSlotDuration: Number(slotDuration),
+        cancellationCutoffHours: Number(cancellationCutoffHours),
+        requiresApproval,
+        weeklyHours,
+        seasonalHours,
         operatingHours: {
           start: startTime,
           end: endTime
@@ -83,6 +195,10 @@ const ApartmentManager: React.FC = () => {
     setStartTime(apartment.operatingHours?.start || apartment.start);
     setEndTime(apartment.operatingHours?.end || apartment.end);
     setSlotDuration(apartment.defaultSlotDuration);
+    setCancellationCutoffHours(apartment.cancellationCutoffHours || 0);
+    setRequiresApproval(apartment.requiresApproval || false);
+    setWeeklyHours(apartment.weeklyHours || {});
+    setSeasonalHours(apartment.seasonalHours || []);
     setEditingApartmentId(apartment.id);
     setFormVisible(true);
   };
@@ -92,11 +208,63 @@ const ApartmentManager: React.FC = () => {
     setStartTime('08:00');
     setEndTime('20:00');
     setSlotDuration(60);
+    setCancellationCutoffHours(0);
+    setRequiresApproval(false);
+    setWeeklyHours({});
+    setSeasonalHours([]);
     setEditingApartmentId(null);
     setFormVisible(false);
     setError(null);
   };
   
+  // Check that every set of hours opens before it closes and every season has a date range
+  const validateHours = (): string | null => {
+    const isValidRange = (hours: DailyHours) => hours.start < hours.end;
+    const isValidWeek = (week: WeeklyHours = {}) =>
+      Object.values(week).every(dayHours => !dayHours || isValidRange(dayHours));
+    
+    if (!isValidRange({ start: startTime, end: endTime }) || !isValidWeek(weeklyHours)) {
+      return 'Opening times must be before closing times';
+    }
+    
+    for (const season of seasonalHours) {
+      if (!season.name || !season.startDate || !season.endDate) {
+        return 'Please give every seasonal schedule a name and date range';
+      }
+      if (season.startDate > season.endDate) {
+        return `${season.name} ends before it starts`;
+      }
+      if (!isValidRange(season.hours) || !isValidWeek(season.weeklyHours)) {
+        return `Opening times for ${season.name} must be before closing times`;
+      }
+    }
+    
+    return null;
+  };
+  
+  const handleAddSeason = () => {
+    setSeasonalHours(prev => [
+      ...prev,
+      { name: '', startDate: '', endDate: '', hours: { start: startTime, end: endTime }, weeklyHours: {} }
+    ]);
+  };
+  
+  const handleSeasonChange = (index: number, changes: Partial<SeasonalHours>) => {
+    setSeasonalHours(prev => prev.map((season, i) => (i === index ? { ...season, ...changes } : season)));
+  };
+  
+  const handleRemoveSeason = (index: number) => {
+    setSeasonalHours(prev => prev.filter((_, i) => i !== index));
+  };
+  
+  // Summarise weekday exceptions, e.g. "Mon: Closed, Sat: 09:00-18:00"
+  const describeWeeklyHours = (week: WeeklyHours = {}): string => {
+    return WEEKDAYS
+      .filter(weekday => week[weekday] !== undefined)
+      .map(weekday => `${weekday.charAt(0).toUpperCase()}${weekday.slice(1, 3)}: ${formatHours(week[weekday] ?? null)}`)
+      .join(', ');
+  };
+  
   // Generate time slot options for dropdown (15 min increments)
   const generateTimeOptions = () => {
     const options = [];
@@ -178,40 +346,99 @@ const ApartmentManager: React.FC = () => {
                     />
                   </div>
                   
-                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                    <div>
-                      <label htmlFor="startTime" className="block text-sm font-medium text-gray-700">
-                        Opening Time
-                      </label>
-                      <select
-                        id="startTime"
-                        value={startTime}
-                        onChange={(e) => setStartTime(e.target.value)}
-                        className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
-                        required
-                      >
-                        {timeOptions.map(time => (
-                          <option key={`start-${time}`} value={time}>{time}</option>
-                        ))}
-                      </select>
-                    </div>
-                    
-                    <div>
-                      <label htmlFor="endTime" className="block text-sm font-medium text-gray-700">
-                        Closing Time
-                      </label>
-                      <select
-                        id="endTime"
-                        value={endTime}
-                        onChange={(e) => setEndTime(e.target.value)}
-                        className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
-                        required
+                  <OperatingHoursEditor
+                    idPrefix="hours"
+                    hours={{ start: startTime, end: endTime }}
+                    weeklyHours={weeklyHours}
+                    timeOptions={timeOptions}
+                    onHoursChange={(hours) => {
+                      setStartTime(hours.start);
+                      setEndTime(hours.end);
+                    }}
+                    onWeeklyHoursChange={setWeeklyHours}
+                  />
+                  
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="block text-sm font-medium text-gray-700">Seasonal Hours</span>
+                      <button
+                        type="button"
+                        onClick={handleAddSeason}
+                        className="text-sm font-medium text-blue-600 hover:text-blue-800"
                       >
-                        {timeOptions.map(time => (
-                          <option key={`end-${time}`} value={time}>{time}</option>
-                        ))}
-                      </select>
+                        Add Season
+                      </button>
                     </div>
+                    {seasonalHours.length === 0 && (
+                      <p className="text-xs text-gray-500">
+                        Seasons replace the weekly schedule above between their start and end dates.
+                      </p>
+                    )}
+                    {seasonalHours.map((season, index) => (
+                      <div key={index} className="border border-gray-200 rounded-md p-4 mb-3 space-y-4">
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                          <div>
+                            <label htmlFor={`season-${index}-name`} className="block text-sm font-medium text-gray-700">
+                              Name
+                            </label>
+                            <input
+                              type="text"
+                              id={`season-${index}-name`}
+                              value={season.name}
+                              onChange={(e) => handleSeasonChange(index, { name: e.target.value })}
+                              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                              placeholder="e.g. Summer"
+                              required
+                            />
+                          </div>
+                          <div>
+                            <label htmlFor={`season-${index}-startDate`} className="block text-sm font-medium text-gray-700">
+                              From
+                            </label>
+                            <input
+                              type="date"
+                              id={`season-${index}-startDate`}
+                              value={season.startDate}
+                              onChange={(e) => handleSeasonChange(index, { startDate: e.target.value })}
+                              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                              required
+                            />
+                          </div>
+                          <div>
+                            <label htmlFor={`season-${index}-endDate`} className="block text-sm font-medium text-gray-700">
+                              Until
+                            </label>
+                            <input
+                              type="date"
+                              id={`season-${index}-endDate`}
+                              value={season.endDate}
+                              onChange={(e) => handleSeasonChange(index, { endDate: e.target.value })}
+                              className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                              required
+                            />
+                          </div>
+                        </div>
+                        
+                        <OperatingHoursEditor
+                          idPrefix={`season-${index}`}
+                          hours={season.hours}
+                          weeklyHours={season.weeklyHours || {}}
+                          timeOptions={timeOptions}
+                          onHoursChange={(hours) => handleSeasonChange(index, { hours })}
+                          onWeeklyHoursChange={(week) => handleSeasonChange(index, { weeklyHours: week })}
+                        />
+                        
+                        <div className="flex justify-end">
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveSeason(index)}
+                            className="text-sm font-medium text-red-600 hover:text-red-900"
+                          >
+                            Remove Season
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
                   
                   <div>
@@ -234,6 +461,40 @@ const ApartmentManager: React.FC = () => {
                     </select>
                   </div>
                   
+                  <div>
+                    <label htmlFor="cancellationCutoff" className="block text-sm font-medium text-gray-700">
+                      Cancellation Cutoff (hours before lesson)
+                    </label>
+                    <input
+                      type="number"
+                      id="cancellationCutoff"
+                      min={0}
+                      max={168}
+                      value={cancellationCutoffHours}
+                      onChange={(e) => setCancellationCutoffHours(Number(e.target.value))}
+                      className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Residents cancelling later than this are recorded as late cancellations. Use 0 for no cutoff.
+                    </p>
+                  </div>
+                  
+                  <div className="flex items-start">
+                    <input
+                      type="checkbox"
+                      id="requiresApproval"
+                      checked={requiresApproval}
+                      onChange={(e) => setRequiresApproval(e.target.checked)}
+                      className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    <label htmlFor="requiresApproval" className="ml-2 block text-sm text-gray-700">
+                      Bookings need approval
+                      <span className="block text-xs text-gray-500">
+                        Residents' bookings are held as requests until an admin approves them, instead of being booked instantly.
+                      </span>
+                    </label>
+                  </div>
+                  
                   <div className="flex justify-end pt-4">
                     <button
                       type="button"
@@ -270,9 +531,28 @@ const ApartmentManager: React.FC = () => {
                           <div className="mt-1 text-sm text-gray-600">
                             Operating Hours: {apartment.operatingHours?.start || apartment.start} - {apartment.operatingHours?.end || apartment.end}
                           </div>
+                          {apartment.weeklyHours && Object.keys(apartment.weeklyHours).length > 0 && (
+                            <div className="mt-1 text-sm text-gray-600">
+                              Weekly Exceptions: {describeWeeklyHours(apartment.weeklyHours)}
+                            </div>
+                          )}
+                          {apartment.seasonalHours?.map((season, index) => (
+                            <div key={index} className="mt-1 text-sm text-gray-600">
+                              {season.name} ({season.startDate} to {season.endDate}): {formatHours(season.hours)}
+                              {season.weeklyHours && Object.keys(season.weeklyHours).length > 0 && `, ${describeWeeklyHours(season.weeklyHours)}`}
+                            </div>
+                          ))}
                           <div className="mt-1 text-sm text-gray-600">
                             Slot Duration: {apartment.defaultSlotDuration} minutes
                           </div>
+                          <div className="mt-1 text-sm text-gray-600">
+                            Cancellation Cutoff: {apartment.cancellationCutoffHours
+                              ? `${apartment.cancellationCutoffHours} hours`
+                              : 'None'}
+                          </div>
+                          <div className="mt-1 text-sm text-gray-600">
+                            Booking: {apartment.requiresApproval ? 'Approval required' : 'Instant'}
+                          </div>
                         </div>
                         
                         <button
@@ -287,6 +567,31 @@ const ApartmentManager: React.FC = () => {
                 )}
               </ul>
             </div>
+            
+            {/* Travel Times */}
+            <div className="bg-white shadow overflow-hidden sm:rounded-md mt-8">
+              <h2 className="text-xl font-semibold px-6 pt-6">Travel Times</h2>
+              <TravelTimeEditor
+                apartments={apartments}
+                travelTimes={travelTimes}
+                isSaving={savingTravelTimes}
+                onSave={handleSaveTravelTimes}
+              />
+            </div>
+            
+            {/* Closures */}
+            <div className="bg-white shadow overflow-hidden sm:rounded-md mt-8">
+              <h2 className="text-xl font-semibold px-6 pt-6">Closures</h2>
+              <ClosureEditor
+                apartments={apartments}
+                closures={closures}
+                isSaving={savingClosure}
+                affected={affectedBookings}
+                onAdd={handleAddClosure}
+                onDelete={handleDeleteClosure}
+                onShowAffected={handleShowAffectedBookings}
+              />
+            </div>
           </>
         )}
       </div>
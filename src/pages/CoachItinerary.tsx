@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { FiPrinter } from 'react-icons/fi';
+import {
+  getApartments,
+  getTravelTimes,
+  getInstructors,
+  getClosuresByDate,
+  getBookingsByDate,
+  addBookings,
+  BookingConflictError,
+  BookingClosedError,
+  CoachLimitError
+} from '../services/firestoreService';
+import { describeBookingConflict, getCoachBookings, getDefaultCoachId } from '../utils/timeSlotUtils';
+import { describeClosure } from '../utils/closureUtils';
+import { buildItinerary, summarizeItinerary } from '../utils/itineraryUtils';
+import type { Apartment, Booking, Closure, Instructor, RouteProposal, TravelTimeMatrix } from '../types';
+import DatePicker from '../components/DatePicker';
+import ItineraryTimeline from '../components/ItineraryTimeline';
+import RouteOptimizer from '../components/RouteOptimizer';
+
+const CoachItinerary: React.FC = () => {
+  const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [apartments, setApartments] = useState<Apartment[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [travelTimes, setTravelTimes] = useState<TravelTimeMatrix>({});
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  // Empty until coaches are set up, then defaults to the first coach
+  const [coachId, setCoachId] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [proposalError, setProposalError] = useState<string | null>(null);
+
+  const formattedDate = format(selectedDate, 'yyyy-MM-dd');
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const apartmentsData = await getApartments();
+        setApartments(apartmentsData);
+        const travelTimesData = await getTravelTimes();
+        setTravelTimes(travelTimesData);
+        const instructorsData = await getInstructors();
+        setInstructors(instructorsData);
+        const closuresData = await getClosuresByDate(formattedDate);
+        setClosures(closuresData);
+        const bookingsData = await getBookingsByDate(formattedDate);
+        setBookings(bookingsData);
+      } catch (err) {
+        console.error('Error fetching itinerary data:', err);
+        setError('Failed to load the itinerary. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [formattedDate]);
+
+  const defaultCoachId = getDefaultCoachId(instructors);
+  const selectedCoachId = coachId || defaultCoachId;
+  const selectedCoach = instructors.find(instructor => instructor.id === selectedCoachId);
+  const coachBookings = getCoachBookings(bookings, selectedCoachId, defaultCoachId);
+  const segments = buildItinerary(coachBookings, formattedDate, travelTimes);
+  const summary = summarizeItinerary(segments);
+
+  // Book every placed request with the selected coach in one step
+  const handleAcceptProposal = async (proposal: RouteProposal): Promise<boolean> => {
+    try {
+      setSaving(true);
+      setProposalError(null);
+      await addBookings(proposal.placements.map(placement => ({
+        apartmentId: placement.request.apartmentId,
+        date: formattedDate,
+        startTime: placement.startTime,
+        endTime: placement.endTime,
+        bookedBy: 'admin',
+        userName: placement.request.userName,
+        status: 'confirmed',
+        ...(selectedCoachId ? { coachId: selectedCoachId } : {})
+      })));
+      setBookings(await getBookingsByDate(formattedDate));
+      return true;
+    } catch (err) {
+      if (err instanceof BookingConflictError) {
+        setProposalError(describeBookingConflict(err.conflict, apartments));
+      } else if (err instanceof BookingClosedError) {
+        setProposalError(`${describeClosure(err.closure, apartments)}.`);
+      } else if (err instanceof CoachLimitError) {
+        setProposalError(err.message);
+      } else {
+        console.error('Error booking the proposed route:', err);
+        setProposalError('Failed to book the proposed route. Please try again.');
+      }
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              Run Sheet{selectedCoach ? ` - ${selectedCoach.name}` : ''}
+            </h1>
+            <p className="mt-1 text-sm text-gray-600">{format(selectedDate, 'EEEE, MMMM d, yyyy')}</p>
+          </div>
+          <button
+            onClick={() => window.print()}
+            className="print:hidden inline-flex items-center bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            <FiPrinter className="mr-2" />
+            Print
+          </button>
+        </div>
+
+        <div className="print:hidden flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-4 mb-6">
+          <DatePicker selectedDate={selectedDate} onDateChange={setSelectedDate} />
+          {instructors.length > 1 && (
+            <select
+              value={selectedCoachId}
+              onChange={(e) => setCoachId(e.target.value)}
+              className="shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+              aria-label="Coach"
+            >
+              {instructors.map(instructor => (
+                <option key={instructor.id} value={instructor.id}>{instructor.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+            <strong>Error!</strong> {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <>
+            <RouteOptimizer
+              apartments={apartments}
+              context={{
+                date: formattedDate,
+                fixedBookings: coachBookings,
+                apartments,
+                closures,
+                travelTimes,
+                coachProfile: selectedCoach?.profile || null
+              }}
+              isSaving={saving}
+              error={proposalError}
+              onAccept={handleAcceptProposal}
+            />
+            <ItineraryTimeline segments={segments} summary={summary} apartments={apartments} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoachItinerary;
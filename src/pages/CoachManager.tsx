@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { getInstructors, addInstructor, updateInstructor } from '../services/firestoreService';
+import type { CoachProfile, Instructor } from '../types';
+import CoachProfileEditor from '../components/CoachProfileEditor';
+
+const CoachManager: React.FC = () => {
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
+  const [selectedInstructorId, setSelectedInstructorId] = useState<string | null>(null);
+  const [newInstructorName, setNewInstructorName] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch instructors on component mount
+  useEffect(() => {
+    fetchInstructors();
+  }, []);
+
+  const fetchInstructors = async () => {
+    try {
+      setLoading(true);
+      const instructorsData = await getInstructors();
+      setInstructors(instructorsData);
+    } catch (err) {
+      console.error('Error fetching instructors:', err);
+      setError('Failed to load coaches. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddInstructor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newInstructorName.trim()) return;
+
+    try {
+      setSaving(true);
+      const id = await addInstructor({ name: newInstructorName.trim() });
+      setNewInstructorName('');
+      await fetchInstructors();
+      setSelectedInstructorId(id);
+    } catch (err) {
+      console.error('Error adding instructor:', err);
+      setError('Failed to add coach. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveProfile = async (profile: CoachProfile) => {
+    if (!selectedInstructorId) return;
+
+    try {
+      setSaving(true);
+      await updateInstructor(selectedInstructorId, { profile });
+      await fetchInstructors();
+    } catch (err) {
+      console.error('Error saving coach profile:', err);
+      setError('Failed to save the coach profile. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedInstructor = instructors.find(instructor => instructor.id === selectedInstructorId);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-gray-900">Manage Coaches</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Residents can only book a coach inside their working hours, outside breaks and within their lesson limits.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative">
+            <strong>Error!</strong> {error}
+            <button
+              className="absolute top-0 bottom-0 right-0 px-4"
+              onClick={() => setError(null)}
+            >
+              &times;
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <>
+            {/* Coaches List */}
+            <div className="bg-white shadow overflow-hidden sm:rounded-md mb-6">
+              <ul className="divide-y divide-gray-200">
+                {instructors.length === 0 ? (
+                  <li className="px-6 py-4 text-center text-gray-500">
+                    No coaches added yet. Until then, every lesson is taught by a single coach without limits.
+                  </li>
+                ) : (
+                  instructors.map((instructor, index) => (
+                    <li key={instructor.id} className="px-6 py-4 flex items-center justify-between">
+                      <div>
+                        <h3 className="text-lg font-medium text-gray-900">
+                          {instructor.name}
+                          {index === 0 && (
+                            <span className="ml-2 px-1.5 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full">
+                              Default
+                            </span>
+                          )}
+                        </h3>
+                        <div className="mt-1 text-sm text-gray-600">
+                          {instructor.profile ? 'Working hours set' : 'No working hours or limits set'}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => setSelectedInstructorId(instructor.id)}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded inline-flex items-center text-sm"
+                      >
+                        Edit Availability
+                      </button>
+                    </li>
+                  ))
+                )}
+              </ul>
+
+              <form onSubmit={handleAddInstructor} className="flex items-end space-x-3 px-6 py-4 border-t border-gray-200">
+                <div className="flex-grow">
+                  <label htmlFor="instructorName" className="block text-sm font-medium text-gray-700">
+                    New Coach
+                  </label>
+                  <input
+                    type="text"
+                    id="instructorName"
+                    value={newInstructorName}
+                    onChange={(e) => setNewInstructorName(e.target.value)}
+                    className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    placeholder="Coach name"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Add Coach
+                </button>
+              </form>
+              <p className="px-6 pb-4 text-xs text-gray-500">
+                Lessons booked before coaches were added belong to the default coach.
+              </p>
+            </div>
+
+            {/* Availability of the selected coach */}
+            {selectedInstructor && (
+              <div className="bg-white shadow overflow-hidden sm:rounded-md">
+                <h2 className="text-xl font-semibold px-6 pt-6">{selectedInstructor.name}'s Availability</h2>
+                <CoachProfileEditor
+                  key={selectedInstructor.id}
+                  profile={selectedInstructor.profile || null}
+                  isSaving={saving}
+                  onSave={handleSaveProfile}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoachManager;
@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { getLessonTypes, addLessonType, updateLessonType, deleteLessonType } from '../services/firestoreService';
+import type { LessonType } from '../types';
+import LessonTypeDot from '../components/LessonTypeDot';
+
+const LessonTypeManager: React.FC = () => {
+  const [lessonTypes, setLessonTypes] = useState<LessonType[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+
+  // Form state - a duration of 0 uses the pool's slot length
+  const [name, setName] = useState<string>('');
+  const [duration, setDuration] = useState<number>(0);
+  const [capacity, setCapacity] = useState<number>(1);
+  const [color, setColor] = useState<string>('#2563eb');
+  const [editingLessonTypeId, setEditingLessonTypeId] = useState<string | null>(null);
+
+  // Fetch lesson types on component mount
+  useEffect(() => {
+    fetchLessonTypes();
+  }, []);
+
+  const fetchLessonTypes = async () => {
+    try {
+      setLoading(true);
+      const lessonTypesData = await getLessonTypes();
+      setLessonTypes(lessonTypesData);
+    } catch (err) {
+      console.error('Error fetching lesson types:', err);
+      setError('Failed to load lesson types. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The built-in types are never stored, so they can't be edited or deleted
+  const isUsingDefaults = lessonTypes.every(lessonType => !lessonType.createdAt);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError('Please give the lesson type a name');
+      return;
+    }
+    if (capacity < 1) {
+      setError('A lesson needs room for at least one resident');
+      return;
+    }
+
+    const lessonType = {
+      name: name.trim(),
+      duration: duration || undefined,
+      capacity: Number(capacity),
+      color
+    };
+
+    try {
+      setSaving(true);
+      if (editingLessonTypeId) {
+        await updateLessonType(editingLessonTypeId, lessonType);
+      } else {
+        await addLessonType(lessonType);
+      }
+      resetForm();
+      await fetchLessonTypes();
+    } catch (err) {
+      console.error('Error saving lesson type:', err);
+      setError('Failed to save the lesson type. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (lessonType: LessonType) => {
+    setName(lessonType.name);
+    setDuration(lessonType.duration || 0);
+    setCapacity(lessonType.capacity);
+    setColor(lessonType.color);
+    setEditingLessonTypeId(lessonType.id);
+    setFormVisible(true);
+  };
+
+  const handleDelete = async (lessonType: LessonType) => {
+    if (!window.confirm(`Are you sure you want to delete ${lessonType.name}? Lessons already booked keep it.`)) return;
+
+    try {
+      await deleteLessonType(lessonType.id);
+      await fetchLessonTypes();
+    } catch (err) {
+      console.error('Error deleting lesson type:', err);
+      setError('Failed to delete the lesson type. Please try again.');
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setDuration(0);
+    setCapacity(1);
+    setColor('#2563eb');
+    setEditingLessonTypeId(null);
+    setFormVisible(false);
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Manage Lesson Types</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Residents pick a lesson type when booking. Its length decides which start times still fit.
+            </p>
+          </div>
+          <button
+            onClick={() => (formVisible ? resetForm() : setFormVisible(true))}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            {formVisible ? 'Cancel' : 'Add Lesson Type'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative">
+            <strong>Error!</strong> {error}
+            <button
+              className="absolute top-0 bottom-0 right-0 px-4"
+              onClick={() => setError(null)}
+            >
+              &times;
+            </button>
+          </div>
+        )}
+
+        {formVisible && (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md mb-6">
+            <form onSubmit={handleSubmit} className="p-6">
+              <h2 className="text-xl font-semibold mb-4">
+                {editingLessonTypeId ? 'Edit Lesson Type' : 'Add Lesson Type'}
+              </h2>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+                <div>
+                  <label htmlFor="lessonTypeName" className="block text-sm font-medium text-gray-700">Name</label>
+                  <input
+                    type="text"
+                    id="lessonTypeName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    placeholder="e.g. Beginner"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="lessonTypeDuration" className="block text-sm font-medium text-gray-700">Length</label>
+                  <select
+                    id="lessonTypeDuration"
+                    value={duration}
+                    onChange={(e) => setDuration(Number(e.target.value))}
+                    className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                  >
+                    <option value="0">Pool's slot length</option>
+                    <option value="15">15 minutes</option>
+                    <option value="30">30 minutes</option>
+                    <option value="45">45 minutes</option>
+                    <option value="60">60 minutes (1 hour)</option>
+                    <option value="90">90 minutes (1.5 hours)</option>
+                    <option value="120">120 minutes (2 hours)</option>
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="lessonTypeCapacity" className="block text-sm font-medium text-gray-700">Residents per lesson</label>
+                  <input
+                    type="number"
+                    id="lessonTypeCapacity"
+                    min="1"
+                    value={capacity}
+                    onChange={(e) => setCapacity(Number(e.target.value))}
+                    className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="lessonTypeColor" className="block text-sm font-medium text-gray-700">Colour</label>
+                  <input
+                    type="color"
+                    id="lessonTypeColor"
+                    value={color}
+                    onChange={(e) => setColor(e.target.value)}
+                    className="mt-1 block h-10 w-full border-gray-300 rounded-md border"
+                  />
+                </div>
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Lessons for more than one resident are shared, and others can join until they're full.
+              </p>
+              <div className="mt-4 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  {saving ? 'Saving...' : editingLessonTypeId ? 'Save Lesson Type' : 'Add Lesson Type'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            {isUsingDefaults && (
+              <p className="px-6 py-3 text-sm text-gray-600 bg-gray-50 border-b border-gray-200">
+                No lesson types added yet. Until then, residents choose from these built-in types.
+                Adding your own replaces them.
+              </p>
+            )}
+            <ul className="divide-y divide-gray-200">
+              {lessonTypes.map(lessonType => (
+                <li key={lessonType.id} className="px-6 py-4 flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                      <LessonTypeDot color={lessonType.color} className="w-3 h-3 mr-2" />
+                      {lessonType.name}
+                    </h3>
+                    <div className="mt-1 text-sm text-gray-600">
+                      {lessonType.duration ? `${lessonType.duration} minutes` : "Pool's slot length"} ·{' '}
+                      {lessonType.capacity > 1 ? `Up to ${lessonType.capacity} residents` : 'Private'}
+                    </div>
+                  </div>
+                  {!isUsingDefaults && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(lessonType)}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded inline-flex items-center text-sm"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(lessonType)}
+                        className="bg-red-100 hover:bg-red-200 text-red-800 font-semibold py-2 px-4 rounded inline-flex items-center text-sm"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LessonTypeManager;
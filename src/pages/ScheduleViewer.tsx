@@ -1,23 +1,126 @@
-import React, { useState, useEffect } from 'react';
-import { format } from 'date-fns';
+import React, { useState, useEffect, useRef } from 'react';
+import { format, addDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
 import DatePicker from '../components/DatePicker';
 import DirectBookingGrid from '../components/DirectBookingGrid';
-import { getApartments, getBookingsByDate } from '../services/firestoreService';
-import type { Apartment, Booking } from '../types';
+import BookingDialog from '../components/BookingDialog';
+import MyBookings from '../components/MyBookings';
+import MyWaitlist from '../components/MyWaitlist';
+import SlotSearch from '../components/SlotSearch';
+import WeekView from '../components/WeekView';
+import MonthCalendar from '../components/MonthCalendar';
+import {
+  getApartments,
+  getTravelTimes,
+  getClosuresByDate,
+  getClosuresInRange,
+  getInstructors,
+  getLessonTypes,
+  getBookingsByDate,
+  getBookingsInRange,
+  getUpcomingBookingsByUser,
+  findNextAvailableSlots,
+  addBooking,
+  addBookingWithAnyCoach,
+  holdSlot,
+  confirmSlotHold,
+  releaseSlotHold,
+  clearExpiredHolds,
+  joinWaitlist,
+  leaveWaitlist,
+  getWaitlistByUser,
+  getStudents,
+  acceptWaitlistOffer,
+  declineWaitlistOffer,
+  expireWaitlistOffers,
+  cancelBooking,
+  BookingConflictError,
+  BookingClosedError,
+  CoachLimitError
+} from '../services/firestoreService';
+import { describeBookingConflict, isActiveBooking, isLateCancellation } from '../utils/timeSlotUtils';
+import {
+  DEFAULT_LESSON_TYPES,
+  describeLessonType,
+  getLessonTypeName,
+  getSlotCapacity,
+  isSameGroupSlot
+} from '../utils/lessonTypeUtils';
+import { describeClosure } from '../utils/closureUtils';
+import type {
+  Apartment,
+  Booking,
+  BookingCandidate,
+  Closure,
+  Instructor,
+  LessonType,
+  SlotSearchPreferences,
+  Student,
+  TimeSlot,
+  TravelTimeMatrix,
+  WaitlistEntry
+} from '../types';
 import { useAuth } from '../contexts/AuthContext';
-import { FiRefreshCw, FiAlertCircle } from 'react-icons/fi';
+import { FiRefreshCw, FiAlertCircle, FiSearch } from 'react-icons/fi';
+
+// How many free slots a search lists
+const SLOT_SEARCH_RESULTS = 10;
 
 const ScheduleViewer: React.FC = () => {
-  const { userData } = useAuth();
+  const { currentUser, userData } = useAuth();
   const userHomeLocation = userData?.homeLocation || '';
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [apartments, setApartments] = useState<Apartment[]>([]);
   const [bookings, setBookings] = useState<Booking[]>([]);
+  const [travelTimes, setTravelTimes] = useState<TravelTimeMatrix>({});
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
+  // Coach whose availability the grid shows - empty for every coach
+  const [coachFilter, setCoachFilter] = useState<string>('');
+  // Lesson type to book - its length sets the grid's slots
+  const [lessonTypes, setLessonTypes] = useState<LessonType[]>(DEFAULT_LESSON_TYPES);
+  const [lessonTypeId, setLessonTypeId] = useState<string>('');
   const [isLoading, setIsLoading] = useState(true);
+  // The week view shows the seven days from Monday of the selected date's week, the
+  // month view the calendar weeks of the selected date's month
+  const [viewMode, setViewMode] = useState<'day' | 'week' | 'month'>('day');
+  const [rangeBookings, setRangeBookings] = useState<Booking[]>([]);
+  const [rangeClosures, setRangeClosures] = useState<Closure[]>([]);
+  const [isRangeLoading, setIsRangeLoading] = useState(false);
   // Add a refresh counter state to trigger re-fetching
   const [refreshCounter, setRefreshCounter] = useState(Date.now());
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  // Slot the user is about to book, shown in the confirmation dialog
+  const [pendingSlot, setPendingSlot] = useState<BookingCandidate | null>(null);
+  const [bookingError, setBookingError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Coaches free for the pending slot, and the one the user asked for (empty for any)
+  const [pendingCoachIds, setPendingCoachIds] = useState<string[]>([]);
+  const [requestedCoachId, setRequestedCoachId] = useState<string>('');
+  // The user's students, and who the pending lesson is for
+  const [students, setStudents] = useState<Student[]>([]);
+  const [selectedStudentIds, setSelectedStudentIds] = useState<string[]>([]);
+  // Spots left when joining a group lesson instead of starting a new one
+  const [pendingSpotsLeft, setPendingSpotsLeft] = useState<number | null>(null);
+  // Hold keeping the pending slot free while the user confirms
+  const [pendingHold, setPendingHold] = useState<Booking | null>(null);
+  // Counts the dialogs opened and closed, so a hold arriving after its dialog is gone is let go
+  const holdRequestRef = useRef(0);
+  const [isHolding, setIsHolding] = useState(false);
+  // The user's own upcoming bookings, which they can cancel
+  const [myBookings, setMyBookings] = useState<Booking[]>([]);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  // Slots and time windows the user is queueing for
+  const [myWaitlist, setMyWaitlist] = useState<WaitlistEntry[]>([]);
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
+  const [waitlistError, setWaitlistError] = useState<string | null>(null);
+  // "Find the next available slot" search
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchResults, setSearchResults] = useState<TimeSlot[] | null>(null);
+  const [searchLessonTypeId, setSearchLessonTypeId] = useState<string>('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -37,6 +140,25 @@ const ScheduleViewer: React.FC = () => {
           return;
         }
         
+        // Travel buffers depend on which pair of pools a booking is between
+        const travelTimesData = await getTravelTimes();
+        setTravelTimes(travelTimesData);
+        
+        // Pools closed for maintenance or holidays on the selected date
+        const closuresData = await getClosuresByDate(format(selectedDate, 'yyyy-MM-dd'));
+        setClosures(closuresData);
+        
+        // Every coach has their own itinerary, working hours and lesson limits
+        const instructorsData = await getInstructors();
+        setInstructors(instructorsData);
+        
+        const lessonTypesData = await getLessonTypes();
+        setLessonTypes(lessonTypesData);
+        
+        // Pass on waitlist offers that ran out, so the grid shows who holds each slot now
+        await expireWaitlistOffers();
+        await clearExpiredHolds();
+        
         // Get bookings for the selected date - always force refresh when manually triggered 
         const shouldForceRefresh = refreshCounter > 0;
         console.log(`Fetching bookings with${shouldForceRefresh ? ' forced' : ' normal'} refresh`, 
@@ -85,10 +207,79 @@ const ScheduleViewer: React.FC = () => {
     fetchData();
   }, [selectedDate, userHomeLocation, refreshCounter]);
 
+  // The first type until the user picks one
+  const selectedLessonType = lessonTypes.find(type => type.id === lessonTypeId) || lessonTypes[0];
+
+  const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 });
+  const rangeStart = viewMode === 'month'
+    ? format(startOfWeek(startOfMonth(selectedDate), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+    : format(weekStart, 'yyyy-MM-dd');
+  const rangeEnd = viewMode === 'month'
+    ? format(endOfWeek(endOfMonth(selectedDate), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+    : format(addDays(weekStart, 6), 'yyyy-MM-dd');
+
+  // Bookings and closures of every day the week or month view shows
+  useEffect(() => {
+    if (viewMode === 'day') return;
+    
+    const fetchRange = async () => {
+      try {
+        setIsRangeLoading(true);
+        const rangeBookingsData = await getBookingsInRange(rangeStart, rangeEnd);
+        setRangeBookings(rangeBookingsData);
+        const rangeClosuresData = await getClosuresInRange(rangeStart, rangeEnd);
+        setRangeClosures(rangeClosuresData);
+      } catch (error) {
+        console.error('Error fetching bookings for the range:', error);
+      } finally {
+        setIsRangeLoading(false);
+      }
+    };
+    
+    fetchRange();
+  }, [viewMode, rangeStart, rangeEnd, refreshCounter]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    const fetchMyBookings = async () => {
+      try {
+        const myBookingsData = await getUpcomingBookingsByUser(currentUser.uid);
+        setMyBookings(myBookingsData);
+        const myWaitlistData = await getWaitlistByUser(currentUser.uid);
+        setMyWaitlist(myWaitlistData);
+      } catch (error) {
+        console.error('Error fetching user bookings:', error);
+      }
+    };
+    
+    fetchMyBookings();
+  }, [currentUser, refreshCounter]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    const fetchStudents = async () => {
+      try {
+        const studentsData = await getStudents(currentUser.uid);
+        setStudents(studentsData);
+      } catch (error) {
+        console.error('Error fetching students:', error);
+      }
+    };
+    
+    fetchStudents();
+  }, [currentUser]);
+
   const handleDateChange = (date: Date) => {
     setSelectedDate(date);
   };
 
+  const handleSelectDay = (date: Date) => {
+    setSelectedDate(date);
+    setViewMode('day');
+  };
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     // Clear existing data
@@ -100,7 +291,315 @@ const ScheduleViewer: React.FC = () => {
     setIsRefreshing(false);
   };
 
-  // Slot click functionality could be added in the future
+  // Why a booking couldn't be saved, for the errors the user can do something about
+  const describeBookingError = (error: unknown): string | null => {
+    if (error instanceof BookingConflictError) {
+      return describeBookingConflict(error.conflict, apartments);
+    }
+    if (error instanceof BookingClosedError) {
+      return `${describeClosure(error.closure, apartments)}.`;
+    }
+    if (error instanceof CoachLimitError) {
+      return error.message;
+    }
+    return null;
+  };
+
+  // Open the confirmation dialog and hold the slot while it's open
+  const openBookingDialog = async (slot: BookingCandidate, coachIds: string[], spotsLeft: number | null = null) => {
+    setBookingError(null);
+    setPendingCoachIds(coachIds);
+    setRequestedCoachId(coachIds.length === 1 ? coachIds[0] : '');
+    setPendingSlot(slot);
+    setPendingSpotsLeft(spotsLeft);
+    // A resident with a single student books for them without having to pick
+    setSelectedStudentIds(students.length === 1 ? [students[0].id] : []);
+    if (pendingHold && currentUser) {
+      releaseSlotHold(pendingHold, currentUser.uid);
+    }
+    setPendingHold(null);
+    const request = ++holdRequestRef.current;
+    if (!currentUser) return;
+
+    try {
+      setIsHolding(true);
+      const hold = await holdSlot({
+        ...slot,
+        bookedBy: currentUser.uid,
+        userName: userData?.name || currentUser.email || ''
+      }, coachIds);
+      if (request !== holdRequestRef.current) {
+        // The dialog was closed, or another slot opened, while the hold was being made
+        releaseSlotHold(hold, currentUser.uid);
+        return;
+      }
+      setPendingHold(hold);
+    } catch (error) {
+      if (request !== holdRequestRef.current) return;
+      // The slot was taken since the grid loaded - show who got it
+      const message = describeBookingError(error);
+      if (message) {
+        setBookingError(message);
+        setRefreshCounter(Date.now());
+        return;
+      }
+      // Booking still works without a hold, it's just not reserved meanwhile
+      console.error('Error holding slot:', error);
+    } finally {
+      if (request === holdRequestRef.current) {
+        setIsHolding(false);
+      }
+    }
+  };
+
+  // The grid's slots last as long as the lesson type picked above it
+  const handleSlotClick = (apartmentId: string, startTime: string, endTime: string, coachIds: string[]) => {
+    openBookingDialog({
+      apartmentId,
+      date: format(selectedDate, 'yyyy-MM-dd'),
+      startTime,
+      endTime,
+      lessonTypeId: selectedLessonType.id,
+      capacity: selectedLessonType.capacity
+    }, coachIds);
+  };
+
+  const handleJoinGroupClick = (booking: Booking, spotsLeft: number) => {
+    if (!currentUser) return;
+    
+    const hasSpot = bookings.some(existing =>
+      existing.bookedBy === currentUser.uid && isActiveBooking(existing) && isSameGroupSlot(existing, booking)
+    );
+    if (hasSpot) {
+      alert('You already have a spot in this lesson.');
+      return;
+    }
+    
+    // The new spot is in the same lesson - same coach, type and capacity
+    openBookingDialog({
+      apartmentId: booking.apartmentId,
+      date: booking.date,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      ...(booking.coachId ? { coachId: booking.coachId } : {}),
+      ...(booking.lessonTypeId ? { lessonTypeId: booking.lessonTypeId } : {}),
+      capacity: getSlotCapacity(booking)
+    }, booking.coachId ? [booking.coachId] : [], spotsLeft);
+  };
+
+  const handleSearch = async (preferences: SlotSearchPreferences) => {
+    try {
+      setSearchLessonTypeId(preferences.lessonTypeId);
+      setIsSearching(true);
+      setSearchError(null);
+      const results = await findNextAvailableSlots(
+        preferences,
+        format(new Date(), 'yyyy-MM-dd'),
+        SLOT_SEARCH_RESULTS
+      );
+      setSearchResults(results);
+    } catch (error) {
+      console.error('Error searching for slots:', error);
+      setSearchError('Failed to search for free slots. Please try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // Search results last as long as the lesson type searched for, so they're booked as that type
+  const handleBookSearchResult = (slot: TimeSlot) => {
+    const searchLessonType = lessonTypes.find(type => type.id === searchLessonTypeId) || selectedLessonType;
+    openBookingDialog({
+      apartmentId: slot.apartmentId,
+      date: slot.date,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      lessonTypeId: searchLessonType.id,
+      capacity: searchLessonType.capacity
+    }, slot.coachIds || []);
+  };
+
+  const handleCancelBooking = () => {
+    holdRequestRef.current++;
+    setIsHolding(false);
+    if (pendingHold && currentUser) {
+      releaseSlotHold(pendingHold, currentUser.uid);
+    }
+    setPendingSlot(null);
+    setPendingHold(null);
+    setBookingError(null);
+  };
+
+  const handleConfirmBooking = async () => {
+    if (!pendingSlot || !currentUser) return;
+
+    // Residents with students book for some of them, each taking a spot of a shared lesson
+    const lessonStudents = students
+      .filter(student => selectedStudentIds.includes(student.id))
+      .map(student => ({ id: student.id, name: student.name }));
+    const capacity = getSlotCapacity(pendingSlot);
+    const openSpots = pendingSpotsLeft ?? capacity;
+    if (students.length > 0 && lessonStudents.length === 0) {
+      setBookingError('Please pick who the lesson is for.');
+      return;
+    }
+    if (capacity > 1 && lessonStudents.length > openSpots) {
+      setBookingError(`This lesson only has room for ${openSpots} more.`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setBookingError(null);
+
+      // addBooking re-runs the overlap and travel buffer checks inside a transaction,
+      // so a grid loaded before someone else booked can't produce a double booking.
+      // Pools that need approval get a request, which holds the slot until an admin decides.
+      const apartment = apartments.find(apt => apt.id === pendingSlot.apartmentId);
+      // The slot carries its lesson type - the one picked, searched for or being joined
+      const lessonChoice = pendingSpotsLeft === null
+        ? { lessonTypeId: pendingSlot.lessonTypeId, capacity }
+        : {};
+      const studentChoice = lessonStudents.length > 0 ? { students: lessonStudents } : {};
+      const newBooking = {
+        ...pendingSlot,
+        ...lessonChoice,
+        ...studentChoice,
+        bookedBy: currentUser.uid,
+        userName: userData?.name || currentUser.email || '',
+        status: apartment?.requiresApproval ? 'requested' as const : 'confirmed' as const
+      };
+      if (pendingHold) {
+        // The hold becomes the booking, with the coach the user picked or the one held
+        await confirmSlotHold(pendingHold, newBooking.status, currentUser.uid, {
+          ...lessonChoice,
+          ...studentChoice,
+          // "Any coach" keeps the coach the hold went to
+          coachId: requestedCoachId || pendingHold.coachId
+        });
+      } else if (requestedCoachId) {
+        await addBooking({ ...newBooking, coachId: requestedCoachId });
+      } else if (pendingCoachIds.length > 0) {
+        // Any free coach - the first one still free when the booking is saved gets the lesson
+        await addBookingWithAnyCoach(newBooking, pendingCoachIds);
+      } else {
+        await addBooking(newBooking);
+      }
+
+      holdRequestRef.current++;
+      setIsHolding(false);
+      setPendingSlot(null);
+      setPendingHold(null);
+      // Other search results may no longer fit around the new lesson
+      setSearchResults(null);
+      // Trigger a re-fetch so the new booking shows up in the grid
+      setRefreshCounter(Date.now());
+    } catch (error) {
+      const message = describeBookingError(error);
+      if (message) {
+        setBookingError(message);
+        // Show the booking that got in the way
+        setRefreshCounter(Date.now());
+        return;
+      }
+      console.error('Error creating booking:', error);
+      setBookingError('Failed to create booking. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelMyBooking = async (booking: Booking) => {
+    if (!currentUser) return;
+    
+    const apartment = apartments.find(apt => apt.id === booking.apartmentId);
+    const confirmMessage = booking.status === 'requested'
+      ? 'Withdraw this booking request?'
+      : isLateCancellation(booking, apartment)
+      ? `This lesson is within the ${apartment?.cancellationCutoffHours}-hour cancellation cutoff. ` +
+        'It will be recorded as a late cancellation. Cancel anyway?'
+      : 'Are you sure you want to cancel this booking?';
+    
+    if (!window.confirm(confirmMessage)) return;
+    
+    try {
+      setCancellingId(booking.id);
+      setCancelError(null);
+      await cancelBooking(booking, currentUser.uid);
+      setRefreshCounter(Date.now());
+    } catch (error) {
+      console.error('Error cancelling booking:', error);
+      setCancelError(error instanceof Error ? error.message : 'Failed to cancel booking.');
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const addToWaitlist = async (apartmentId: string, startTime: string, endTime: string, bookingId?: string) => {
+    if (!currentUser) return;
+    
+    try {
+      setIsJoiningWaitlist(true);
+      setWaitlistError(null);
+      await joinWaitlist({
+        apartmentId,
+        date: format(selectedDate, 'yyyy-MM-dd'),
+        startTime,
+        endTime,
+        bookingId,
+        userId: currentUser.uid,
+        userName: userData?.name || currentUser.email || ''
+      });
+      setRefreshCounter(Date.now());
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      setWaitlistError(error instanceof Error ? error.message : 'Failed to join the waitlist.');
+    } finally {
+      setIsJoiningWaitlist(false);
+    }
+  };
+
+  const handleWaitlistClick = async (booking: Booking) => {
+    if (!currentUser || booking.bookedBy === currentUser.uid) return;
+    
+    const apartment = apartments.find(apt => apt.id === booking.apartmentId);
+    if (!window.confirm(`Join the waitlist for ${booking.startTime} - ${booking.endTime} at ${apartment?.name || 'this pool'}?`)) {
+      return;
+    }
+    await addToWaitlist(booking.apartmentId, booking.startTime, booking.endTime, booking.id);
+  };
+
+  const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
+    try {
+      setWaitlistError(null);
+      await leaveWaitlist(entry.id);
+      setRefreshCounter(Date.now());
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      setWaitlistError('Failed to leave the waitlist.');
+    }
+  };
+
+  const handleOffer = async (booking: Booking, accept: boolean) => {
+    if (!currentUser) return;
+    
+    try {
+      setCancellingId(booking.id);
+      setCancelError(null);
+      if (accept) {
+        await acceptWaitlistOffer(booking, currentUser.uid);
+      } else {
+        await declineWaitlistOffer(booking, currentUser.uid);
+      }
+      setRefreshCounter(Date.now());
+    } catch (error) {
+      console.error('Error answering waitlist offer:', error);
+      setCancelError(error instanceof Error ? error.message : 'Failed to answer the offer.');
+      setRefreshCounter(Date.now());
+    } finally {
+      setCancellingId(null);
+    }
+  };
 
   return (
     <div className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
@@ -112,16 +611,74 @@ const ScheduleViewer: React.FC = () => {
       </div>
       
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center space-y-4 sm:space-y-0 mb-6">
-        <DatePicker selectedDate={selectedDate} onDateChange={handleDateChange} />
+        <div className="flex flex-col sm:flex-row sm:items-center space-y-2 sm:space-y-0 sm:space-x-4">
+          <div className="flex">
+            <button
+              onClick={() => setViewMode('day')}
+              className={`px-4 py-2 text-sm font-medium rounded-l-lg border border-gray-300 ${viewMode === 'day' ? 'bg-blue-500 text-white' : 'bg-white hover:bg-gray-100'}`}
+            >
+              Day
+            </button>
+            <button
+              onClick={() => setViewMode('week')}
+              className={`px-4 py-2 text-sm font-medium border-t border-b border-r border-gray-300 ${viewMode === 'week' ? 'bg-blue-500 text-white' : 'bg-white hover:bg-gray-100'}`}
+            >
+              Week
+            </button>
+            <button
+              onClick={() => setViewMode('month')}
+              className={`px-4 py-2 text-sm font-medium rounded-r-lg border-t border-b border-r border-gray-300 ${viewMode === 'month' ? 'bg-blue-500 text-white' : 'bg-white hover:bg-gray-100'}`}
+            >
+              Month
+            </button>
+          </div>
+          {viewMode === 'day' && (
+            <DatePicker selectedDate={selectedDate} onDateChange={handleDateChange} />
+          )}
+          {instructors.length > 1 && (
+            <select
+              value={coachFilter}
+              onChange={(e) => setCoachFilter(e.target.value)}
+              className="shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+              aria-label="Show availability for"
+            >
+              <option value="">All coaches</option>
+              {instructors.map(instructor => (
+                <option key={instructor.id} value={instructor.id}>{instructor.name}</option>
+              ))}
+            </select>
+          )}
+          {lessonTypes.length > 1 && (
+            <select
+              value={selectedLessonType.id}
+              onChange={(e) => setLessonTypeId(e.target.value)}
+              className="shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+              aria-label="Lesson type"
+            >
+              {lessonTypes.map(lessonType => (
+                <option key={lessonType.id} value={lessonType.id}>{describeLessonType(lessonType)}</option>
+              ))}
+            </select>
+          )}
+        </div>
         <div className="flex flex-col items-end space-y-1">
-          <button 
-            onClick={handleRefresh}
-            disabled={isRefreshing}
-            className={`inline-flex items-center justify-center rounded-md px-4 py-2 text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 focus:outline-none transition ${isRefreshing ? 'opacity-50 cursor-not-allowed' : ''}`}
-          >
-            <FiRefreshCw className={`mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
-            <span>{isRefreshing ? 'Refreshing...' : 'Refresh'}</span>
-          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setShowSearch(!showSearch)}
+              className="inline-flex items-center justify-center rounded-md px-4 py-2 text-sm font-medium bg-white text-blue-600 border border-blue-500 hover:bg-blue-50 focus:outline-none transition"
+            >
+              <FiSearch className="mr-2" />
+              <span>{showSearch ? 'Hide Search' : 'Find a Slot'}</span>
+            </button>
+            <button 
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              className={`inline-flex items-center justify-center rounded-md px-4 py-2 text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 focus:outline-none transition ${isRefreshing ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <FiRefreshCw className={`mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+              <span>{isRefreshing ? 'Refreshing...' : 'Refresh'}</span>
+            </button>
+          </div>
           
           <div className="flex items-center text-xs text-gray-500">
             {lastUpdated && (
@@ -140,7 +697,7 @@ const ScheduleViewer: React.FC = () => {
         </div>
       </div>
       
-      {bookings.length === 0 && !isLoading && !isRefreshing && (
+      {viewMode === 'day' && bookings.length === 0 && !isLoading && !isRefreshing && (
         <div className="bg-yellow-50 p-4 mb-4 rounded-md border border-yellow-100">
           <div className="flex items-center">
             <FiAlertCircle className="text-yellow-500 mr-2" />
@@ -152,7 +709,87 @@ const ScheduleViewer: React.FC = () => {
         </div>
       )}
       
-      {isLoading ? (
+      {cancelError && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4 text-sm" role="alert">
+          {cancelError}
+        </div>
+      )}
+      
+      {showSearch && (
+        <SlotSearch
+          apartments={apartments}
+          homeApartmentId={userHomeLocation}
+          instructors={instructors}
+          lessonTypes={lessonTypes}
+          initialLessonTypeId={selectedLessonType.id}
+          results={searchResults}
+          isSearching={isSearching}
+          error={searchError}
+          onSearch={handleSearch}
+          onBook={handleBookSearchResult}
+        />
+      )}
+      
+      <MyBookings
+        bookings={myBookings}
+        apartments={apartments}
+        cancellingId={cancellingId}
+        onCancel={handleCancelMyBooking}
+        onAcceptOffer={(booking) => handleOffer(booking, true)}
+        onDeclineOffer={(booking) => handleOffer(booking, false)}
+        lessonTypes={lessonTypes}
+      />
+      
+      <MyWaitlist
+        entries={myWaitlist}
+        apartments={apartments}
+        date={format(selectedDate, 'yyyy-MM-dd')}
+        defaultApartmentId={userHomeLocation}
+        isSaving={isJoiningWaitlist}
+        error={waitlistError}
+        onJoinWindow={(apartmentId, startTime, endTime) => addToWaitlist(apartmentId, startTime, endTime)}
+        onLeave={handleLeaveWaitlist}
+      />
+      
+      {viewMode === 'month' ? (
+        <div className="mb-6">
+          <MonthCalendar
+            month={selectedDate}
+            selectedDate={selectedDate}
+            apartments={apartments}
+            focusApartmentId={userHomeLocation || undefined}
+            bookings={rangeBookings}
+            travelTimes={travelTimes}
+            closures={rangeClosures}
+            instructors={instructors}
+            coachFilter={coachFilter}
+            slotDuration={selectedLessonType.duration}
+            isLoading={isRangeLoading}
+            onMonthChange={setSelectedDate}
+            onSelectDate={handleSelectDay}
+          />
+        </div>
+      ) : viewMode === 'week' ? (
+        isRangeLoading && rangeBookings.length === 0 ? (
+          <div className="flex justify-center items-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <WeekView
+            apartments={apartments}
+            bookings={rangeBookings}
+            userHomeLocation={userHomeLocation}
+            weekStart={weekStart}
+            travelTimes={travelTimes}
+            closures={rangeClosures}
+            instructors={instructors}
+            coachFilter={coachFilter}
+            slotDuration={selectedLessonType.duration}
+            onWeekChange={setSelectedDate}
+            onSelectDay={handleSelectDay}
+          />
+        )
+      ) : isLoading ? (
         <div className="flex justify-center items-center h-64">
           <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
         </div>
@@ -162,7 +799,43 @@ const ScheduleViewer: React.FC = () => {
           apartments={apartments}
           userHomeLocation={userHomeLocation}
           date={selectedDate}
-          onSlotClick={(apartmentId, startTime, endTime) => console.log('Slot clicked:', apartmentId, startTime, endTime)}
+          travelTimes={travelTimes}
+          closures={closures}
+          instructors={instructors}
+          coachFilter={coachFilter}
+          slotDuration={selectedLessonType.duration}
+          lessonTypes={lessonTypes}
+          viewerId={currentUser?.uid}
+          onSlotClick={handleSlotClick}
+          onWaitlistClick={handleWaitlistClick}
+          onJoinGroupClick={handleJoinGroupClick}
+        />
+      )}
+
+      {pendingSlot && (
+        <BookingDialog
+          apartment={apartments.find(apt => apt.id === pendingSlot.apartmentId)}
+          date={pendingSlot.date}
+          startTime={pendingSlot.startTime}
+          endTime={pendingSlot.endTime}
+          coaches={instructors.filter(instructor => pendingCoachIds.includes(instructor.id))}
+          selectedCoachId={requestedCoachId}
+          onCoachChange={setRequestedCoachId}
+          lessonType={lessonTypes.find(type => type.id === pendingSlot.lessonTypeId) || selectedLessonType}
+          joinGroup={pendingSpotsLeft !== null ? {
+            lessonName: getLessonTypeName(pendingSlot, lessonTypes) || 'Group',
+            spotsLeft: pendingSpotsLeft,
+            capacity: getSlotCapacity(pendingSlot)
+          } : undefined}
+          students={students}
+          selectedStudentIds={selectedStudentIds}
+          onStudentsChange={setSelectedStudentIds}
+          isHolding={isHolding}
+          holdExpiresAt={pendingHold?.holdExpiresAt}
+          isSubmitting={isSubmitting}
+          error={bookingError}
+          onConfirm={handleConfirmBooking}
+          onCancel={handleCancelBooking}
         />
       )}
     </div>
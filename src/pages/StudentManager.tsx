@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { getStudents, addStudent, updateStudent, deleteStudent } from '../services/firestoreService';
+import { useAuth } from '../contexts/AuthContext';
+import type { Student, SwimmingLevel } from '../types';
+import { SWIMMING_LEVELS, SWIMMING_LEVEL_LABELS, describeStudent } from '../utils/studentUtils';
+
+const StudentManager: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [students, setStudents] = useState<Student[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formVisible, setFormVisible] = useState<boolean>(false);
+
+  // Form state - an empty birth year or level is left out
+  const [name, setName] = useState<string>('');
+  const [birthYear, setBirthYear] = useState<string>('');
+  const [swimmingLevel, setSwimmingLevel] = useState<SwimmingLevel | ''>('');
+  const [medicalNotes, setMedicalNotes] = useState<string>('');
+  const [editingStudentId, setEditingStudentId] = useState<string | null>(null);
+
+  // Fetch the resident's students once they're signed in
+  useEffect(() => {
+    if (currentUser) {
+      fetchStudents(currentUser.uid);
+    }
+  }, [currentUser]);
+
+  const fetchStudents = async (userId: string) => {
+    try {
+      setLoading(true);
+      const studentsData = await getStudents(userId);
+      setStudents(studentsData);
+    } catch (err) {
+      console.error('Error fetching students:', err);
+      setError('Failed to load your students. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+    if (!name.trim()) {
+      setError('Please enter the student\'s name');
+      return;
+    }
+    const year = birthYear ? Number(birthYear) : undefined;
+    if (year !== undefined && (!Number.isInteger(year) || year < 1900 || year > new Date().getFullYear())) {
+      setError('Please enter a valid birth year');
+      return;
+    }
+
+    const student = {
+      name: name.trim(),
+      birthYear: year,
+      swimmingLevel: swimmingLevel || undefined,
+      medicalNotes: medicalNotes.trim() || undefined
+    };
+
+    try {
+      setSaving(true);
+      if (editingStudentId) {
+        await updateStudent(currentUser.uid, editingStudentId, student);
+      } else {
+        await addStudent(currentUser.uid, student);
+      }
+      resetForm();
+      await fetchStudents(currentUser.uid);
+    } catch (err) {
+      console.error('Error saving student:', err);
+      setError('Failed to save the student. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (student: Student) => {
+    setName(student.name);
+    setBirthYear(student.birthYear ? String(student.birthYear) : '');
+    setSwimmingLevel(student.swimmingLevel || '');
+    setMedicalNotes(student.medicalNotes || '');
+    setEditingStudentId(student.id);
+    setFormVisible(true);
+  };
+
+  const handleDelete = async (student: Student) => {
+    if (!currentUser) return;
+    if (!window.confirm(`Are you sure you want to remove ${student.name}? Lessons already booked stay booked.`)) return;
+
+    try {
+      await deleteStudent(currentUser.uid, student.id);
+      await fetchStudents(currentUser.uid);
+    } catch (err) {
+      console.error('Error deleting student:', err);
+      setError('Failed to remove the student. Please try again.');
+    }
+  };
+
+  const resetForm = () => {
+    setName('');
+    setBirthYear('');
+    setSwimmingLevel('');
+    setMedicalNotes('');
+    setEditingStudentId(null);
+    setFormVisible(false);
+    setError(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">My Students</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Add the children you book lessons for. The coach sees their level and medical notes with each lesson.
+            </p>
+          </div>
+          <button
+            onClick={() => (formVisible ? resetForm() : setFormVisible(true))}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            {formVisible ? 'Cancel' : 'Add Student'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative">
+            <strong>Error!</strong> {error}
+            <button
+              className="absolute top-0 bottom-0 right-0 px-4"
+              onClick={() => setError(null)}
+            >
+              &times;
+            </button>
+          </div>
+        )}
+
+        {formVisible && (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md mb-6">
+            <form onSubmit={handleSubmit} className="p-6">
+              <h2 className="text-xl font-semibold mb-4">
+                {editingStudentId ? 'Edit Student' : 'Add Student'}
+              </h2>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <div>
+                  <label htmlFor="studentName" className="block text-sm font-medium text-gray-700">Name</label>
+                  <input
+                    type="text"
+                    id="studentName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="studentBirthYear" className="block text-sm font-medium text-gray-700">Birth Year</label>
+                  <input
+                    type="number"
+                    id="studentBirthYear"
+                    value={birthYear}
+                    onChange={(e) => setBirthYear(e.target.value)}
+                    className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    placeholder="e.g. 2016"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="studentLevel" className="block text-sm font-medium text-gray-700">Swimming Level</label>
+                  <select
+                    id="studentLevel"
+                    value={swimmingLevel}
+                    onChange={(e) => setSwimmingLevel(e.target.value as SwimmingLevel | '')}
+                    className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                  >
+                    <option value="">Not sure</option>
+                    {SWIMMING_LEVELS.map(level => (
+                      <option key={level} value={level}>{SWIMMING_LEVEL_LABELS[level]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="sm:col-span-3">
+                  <label htmlFor="studentMedicalNotes" className="block text-sm font-medium text-gray-700">Medical Notes</label>
+                  <textarea
+                    id="studentMedicalNotes"
+                    value={medicalNotes}
+                    onChange={(e) => setMedicalNotes(e.target.value)}
+                    rows={2}
+                    className="mt-1 block w-full shadow-sm sm:text-sm border-gray-300 rounded-md p-2 border"
+                    placeholder="Allergies, conditions or anything else the coach should know"
+                  />
+                </div>
+              </div>
+              <div className="mt-4 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  {saving ? 'Saving...' : editingStudentId ? 'Save Student' : 'Add Student'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+          </div>
+        ) : (
+          <div className="bg-white shadow overflow-hidden sm:rounded-md">
+            <ul className="divide-y divide-gray-200">
+              {students.length === 0 ? (
+                <li className="px-6 py-4 text-center text-gray-500">
+                  No students added yet. Until then, lessons are booked in your own name.
+                </li>
+              ) : (
+                students.map(student => (
+                  <li key={student.id} className="px-6 py-4 flex items-center justify-between">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">{student.name}</h3>
+                      <div className="mt-1 text-sm text-gray-600">
+                        {describeStudent(student) || 'No details added'}
+                      </div>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(student)}
+                        className="bg-gray-100 hover:bg-gray-200 text-gray-800 font-semibold py-2 px-4 rounded inline-flex items-center text-sm"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(student)}
+                        className="bg-red-100 hover:bg-red-200 text-red-800 font-semibold py-2 px-4 rounded inline-flex items-center text-sm"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))
+              )}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudentManager;
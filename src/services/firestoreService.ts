@@ -1,6 +1,95 @@
-import { collection, addDoc, doc, setDoc, getDocs, query, where, orderBy, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, collectionGroup, addDoc, doc, getDoc, setDoc, updateDoc, getDocs, query, where, orderBy, deleteDoc, serverTimestamp, runTransaction, arrayUnion, deleteField, writeBatch, Timestamp } from 'firebase/firestore';
+import type { DocumentData, DocumentReference, Transaction } from 'firebase/firestore';
+import { format, parse, isAfter, addDays, addMinutes, eachDayOfInterval } from 'date-fns';
 import { db } from './firebase';
-import type { Apartment, Booking } from '../types';
+import {
+  findBookingConflict,
+  findCoachLimit,
+  describeCoachLimit,
+  getCoachBookings,
+  getDefaultCoachId,
+  isLateCancellation,
+  getTravelTimeKey
+} from '../utils/timeSlotUtils';
+import {
+  expandRecurringBookings,
+  getActiveOccurrenceDates,
+  createOccurrence,
+  isGeneratedOccurrence,
+  truncateRecurrence,
+  continueRecurrence
+} from '../utils/recurrenceUtils';
+import { findClosure, getBookingsInClosure } from '../utils/closureUtils';
+import {
+  SLOT_HOLD_MINUTES,
+  STATUS_LABELS,
+  getAvailableTransitions,
+  isBlockingStatus,
+  isCancelledStatus,
+  isHoldExpired,
+  isOfferExpired,
+  normalizeBookingStatus
+} from '../utils/bookingStatusUtils';
+import { findAvailableSlots } from '../utils/slotSearchUtils';
+import { findNextWaitlistEntry, getOfferExpiry } from '../utils/waitlistUtils';
+import { DEFAULT_LESSON_TYPES } from '../utils/lessonTypeUtils';
+import type {
+  Apartment,
+  Booking,
+  BookingActor,
+  BookingCandidate,
+  BookingConflict,
+  BookingStatus,
+  Closure,
+  CoachLimitReason,
+  CoachProfile,
+  Instructor,
+  LessonType,
+  RecurrenceScope,
+  Student,
+  SlotSearchPreferences,
+  TimeSlot,
+  TravelTime,
+  TravelTimeMatrix,
+  WaitlistEntry
+} from '../types';
+
+// Thrown when a booking can't be saved because an existing booking is in the way
+export class BookingConflictError extends Error {
+  conflict: BookingConflict;
+
+  constructor(conflict: BookingConflict) {
+    const { booking, reason } = conflict;
+    const problem = reason === 'travel-buffer'
+      ? 'breaks the travel buffer of'
+      : reason === 'full' ? 'joins the full group lesson of' : 'overlaps';
+    super(`Booking ${problem} booking ${booking.id} (${booking.startTime}-${booking.endTime})`);
+    this.name = 'BookingConflictError';
+    this.conflict = conflict;
+  }
+}
+
+// Thrown when a booking falls on a day its pool is closed
+export class BookingClosedError extends Error {
+  closure: Closure;
+
+  constructor(closure: Closure) {
+    super(`Pool is closed from ${closure.startDate} to ${closure.endDate}: ${closure.reason}`);
+    this.name = 'BookingClosedError';
+    this.closure = closure;
+  }
+}
+
+// Thrown when a lesson doesn't fit the coach's working hours, breaks or lesson limits
+export class CoachLimitError extends Error {
+  reason: CoachLimitReason;
+
+  constructor(reason: CoachLimitReason, profile: CoachProfile) {
+    super(describeCoachLimit(reason, profile));
+    this.name = 'CoachLimitError';
+    this.reason = reason;
+  }
+}
 
 // Apartments Collection Operations
 export const getApartments = async (): Promise<Apartment[]> => {
@@ -28,14 +117,382 @@ export const addApartment = async (apartment: Omit<Apartment, 'id'>): Promise<st
 
 export const updateApartment = async (id: string, apartment: Partial<Apartment>): Promise<void> => {
   try {
-    await setDoc(doc(db, 'apartments', id), apartment, { merge: true });
+    // updateDoc replaces each field as a whole, so weekdays set back to the default hours
+    // drop out of weeklyHours instead of being merged back in
+    await updateDoc(doc(db, 'apartments', id), apartment);
   } catch (error) {
     console.error('Error updating apartment:', error);
     throw error;
   }
 };
 
+// Travel Times Collection Operations
+export const getTravelTimes = async (): Promise<TravelTimeMatrix> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'travelTimes'));
+    return querySnapshot.docs.reduce((matrix, doc) => {
+      const travelTime = doc.data() as Omit<TravelTime, 'id'>;
+      matrix[doc.id] = Number(travelTime.minutes);
+      return matrix;
+    }, {} as TravelTimeMatrix);
+  } catch (error) {
+    console.error('Error getting travel times:', error);
+    throw error;
+  }
+};
+
+// Save travel times for any number of apartment pairs in one write
+export const saveTravelTimes = async (travelTimes: Omit<TravelTime, 'id'>[]): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    travelTimes.forEach(({ apartmentIds, minutes }) => {
+      const sortedIds = [...apartmentIds].sort() as [string, string];
+      batch.set(doc(db, 'travelTimes', getTravelTimeKey(sortedIds[0], sortedIds[1])), {
+        apartmentIds: sortedIds,
+        minutes: Number(minutes)
+      });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error saving travel times:', error);
+    throw error;
+  }
+};
+
+// Instructors Collection Operations
+
+const toInstructor = (id: string, data: DocumentData): Instructor => ({
+  ...data,
+  id,
+  name: data.name || '',
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date()
+}) as Instructor;
+
+// Instructors in the order they were added - the first one is the default coach
+export const getInstructors = async (): Promise<Instructor[]> => {
+  try {
+    const q = query(collection(db, 'instructors'), orderBy('createdAt'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => toInstructor(doc.id, doc.data()));
+  } catch (error) {
+    console.error('Error getting instructors:', error);
+    throw error;
+  }
+};
+
+export const addInstructor = async (instructor: Omit<Instructor, 'id' | 'createdAt'>): Promise<string> => {
+  try {
+    const docRef = await addDoc(collection(db, 'instructors'), {
+      ...withoutEmptyValues({ ...instructor }),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding instructor:', error);
+    throw error;
+  }
+};
+
+export const updateInstructor = async (id: string, instructor: Partial<Omit<Instructor, 'id' | 'createdAt'>>): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'instructors', id), withoutEmptyValues({ ...instructor }), { merge: true });
+  } catch (error) {
+    console.error('Error updating instructor:', error);
+    throw error;
+  }
+};
+
+// Lesson Types Collection Operations
+
+const toLessonType = (id: string, data: DocumentData): LessonType => ({
+  ...data,
+  id,
+  name: data.name || '',
+  capacity: data.capacity || 1,
+  color: data.color || DEFAULT_LESSON_TYPES[0].color,
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date()
+}) as LessonType;
+
+// The admin's lesson types in the order they were added, or the default ones until
+// there are any
+export const getLessonTypes = async (): Promise<LessonType[]> => {
+  try {
+    const q = query(collection(db, 'lessonTypes'), orderBy('createdAt'));
+    const querySnapshot = await getDocs(q);
+    const lessonTypes = querySnapshot.docs.map(doc => toLessonType(doc.id, doc.data()));
+    return lessonTypes.length > 0 ? lessonTypes : DEFAULT_LESSON_TYPES;
+  } catch (error) {
+    console.error('Error getting lesson types:', error);
+    throw error;
+  }
+};
+
+export const addLessonType = async (lessonType: Omit<LessonType, 'id' | 'createdAt'>): Promise<string> => {
+  try {
+    const docRef = await addDoc(collection(db, 'lessonTypes'), {
+      ...withoutEmptyValues({ ...lessonType }),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding lesson type:', error);
+    throw error;
+  }
+};
+
+export const updateLessonType = async (id: string, lessonType: Omit<LessonType, 'id' | 'createdAt'>): Promise<void> => {
+  try {
+    // Written in full, so clearing the duration goes back to the pool's slot length
+    await setDoc(doc(db, 'lessonTypes', id), {
+      name: lessonType.name,
+      duration: lessonType.duration || deleteField(),
+      capacity: lessonType.capacity,
+      color: lessonType.color
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error updating lesson type:', error);
+    throw error;
+  }
+};
+
+// Bookings keep the type's id and capacity, so removing a type doesn't change them
+export const deleteLessonType = async (id: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'lessonTypes', id));
+  } catch (error) {
+    console.error('Error deleting lesson type:', error);
+    throw error;
+  }
+};
+
+// Students Sub-collection Operations
+
+const toStudent = (id: string, userId: string, data: DocumentData): Student => ({
+  ...data,
+  id,
+  userId,
+  name: data.name || '',
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date()
+}) as Student;
+
+// A resident's students in the order they were added
+export const getStudents = async (userId: string): Promise<Student[]> => {
+  try {
+    const q = query(collection(db, 'users', userId, 'students'), orderBy('createdAt'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(doc => toStudent(doc.id, userId, doc.data()));
+  } catch (error) {
+    console.error('Error getting students:', error);
+    throw error;
+  }
+};
+
+// Every resident's students by name, for the coach's schedule filter
+export const getAllStudents = async (): Promise<Student[]> => {
+  try {
+    const querySnapshot = await getDocs(collectionGroup(db, 'students'));
+    return querySnapshot.docs
+      .map(doc => toStudent(doc.id, doc.ref.parent.parent?.id || '', doc.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting all students:', error);
+    throw error;
+  }
+};
+
+export const addStudent = async (userId: string, student: Omit<Student, 'id' | 'userId' | 'createdAt'>): Promise<string> => {
+  try {
+    const docRef = await addDoc(collection(db, 'users', userId, 'students'), {
+      ...withoutEmptyValues({ ...student }),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding student:', error);
+    throw error;
+  }
+};
+
+export const updateStudent = async (
+  userId: string,
+  id: string,
+  student: Omit<Student, 'id' | 'userId' | 'createdAt'>
+): Promise<void> => {
+  try {
+    // Written in full, so cleared fields are removed rather than kept
+    await setDoc(doc(db, 'users', userId, 'students', id), {
+      name: student.name,
+      birthYear: student.birthYear || deleteField(),
+      swimmingLevel: student.swimmingLevel || deleteField(),
+      medicalNotes: student.medicalNotes || deleteField()
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error updating student:', error);
+    throw error;
+  }
+};
+
+// Bookings keep the student's id and name, so lessons already booked still show who they're for
+export const deleteStudent = async (userId: string, id: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'users', userId, 'students', id));
+  } catch (error) {
+    console.error('Error deleting student:', error);
+    throw error;
+  }
+};
+
+// Closures Collection Operations
+
+const toClosure = (id: string, data: DocumentData): Closure => ({
+  ...data,
+  id,
+  startDate: data.startDate || '',
+  endDate: data.endDate || '',
+  reason: data.reason || '',
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date()
+}) as Closure;
+
+// Closures overlapping a date range, soonest first
+export const getClosuresInRange = async (startDate: string, endDate: string): Promise<Closure[]> => {
+  try {
+    // Firestore only allows a range filter on one field, so filter the start date here
+    const q = query(collection(db, 'closures'), where('endDate', '>=', startDate));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toClosure(doc.id, doc.data()))
+      .filter(closure => closure.startDate <= endDate)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  } catch (error) {
+    console.error('Error getting closures:', error);
+    throw error;
+  }
+};
+
+export const getClosuresByDate = async (date: string): Promise<Closure[]> => {
+  return getClosuresInRange(date, date);
+};
+
+// Closures that haven't ended yet
+export const getUpcomingClosures = async (): Promise<Closure[]> => {
+  return getClosuresInRange(format(new Date(), 'yyyy-MM-dd'), '9999-12-31');
+};
+
+export const addClosure = async (closure: Omit<Closure, 'id' | 'createdAt'>): Promise<string> => {
+  try {
+    if (closure.startDate > closure.endDate) {
+      throw new Error('A closure has to end on or after its start date.');
+    }
+    
+    const docRef = await addDoc(collection(db, 'closures'), {
+      ...withoutEmptyValues({ ...closure }),
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding closure:', error);
+    throw error;
+  }
+};
+
+export const deleteClosure = async (id: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'closures', id));
+  } catch (error) {
+    console.error('Error deleting closure:', error);
+    throw error;
+  }
+};
+
+// Lessons that fall inside a closure, so the coach can contact those families
+export const getBookingsAffectedByClosure = async (closure: Closure): Promise<Booking[]> => {
+  try {
+    const dates = eachDayOfInterval({
+      start: parse(closure.startDate, 'yyyy-MM-dd', new Date()),
+      end: parse(closure.endDate, 'yyyy-MM-dd', new Date())
+    }).map(date => format(date, 'yyyy-MM-dd'));
+    
+    const bookings = await fetchBookingsForConflictCheck(dates);
+    return getBookingsInClosure(closure, bookings)
+      .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+  } catch (error) {
+    console.error('Error getting bookings affected by closure:', error);
+    throw error;
+  }
+};
+
 // Bookings Collection Operations
+
+// Normalise a booking document, making sure all required fields exist
+const toBooking = (id: string, data: DocumentData): Booking => ({
+  ...data,
+  id,
+  apartmentId: data.apartmentId || '',
+  date: data.date || '',
+  startTime: data.startTime || '00:00',
+  endTime: data.endTime || '00:00',
+  bookedBy: data.bookedBy || 'unknown',
+  status: normalizeBookingStatus(data.status),
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+  userName: data.userName || '',
+  cancelledAt: data.cancelledAt?.toDate ? data.cancelledAt.toDate() : undefined,
+  lateCancellation: data.lateCancellation || false,
+  approvedAt: data.approvedAt?.toDate ? data.approvedAt.toDate() : undefined,
+  declinedAt: data.declinedAt?.toDate ? data.declinedAt.toDate() : undefined,
+  offerExpiresAt: data.offerExpiresAt?.toDate ? data.offerExpiresAt.toDate() : undefined,
+  holdExpiresAt: data.holdExpiresAt?.toDate ? data.holdExpiresAt.toDate() : undefined,
+  history: (data.history || []).map((transition: DocumentData) => ({
+    ...transition,
+    at: transition.at?.toDate ? transition.at.toDate() : new Date()
+  }))
+}) as Booking;
+
+// Firestore rejects undefined values, so drop them (and nulls) before writing
+const withoutEmptyValues = (data: Record<string, unknown>): Record<string, unknown> => {
+  return Object.entries(data).reduce((acc, [key, value]) => {
+    if (value !== undefined && value !== null) {
+      acc[key] = value;
+    }
+    return acc;
+  }, {} as Record<string, unknown>);
+};
+
+// Drop fields an update clears, e.g. a booking's coach when it goes back to the default one
+const withoutFields = <T extends object>(data: T, fields: (keyof Booking)[]): T => {
+  const remaining = { ...data } as Record<string, unknown>;
+  fields.forEach(field => delete remaining[field]);
+  return remaining as T;
+};
+
+// Merge writes keep fields that are left out, so cleared fields have to be deleted explicitly
+const toFieldDeletions = (fields: (keyof Booking)[]): Record<string, unknown> => {
+  return Object.fromEntries(fields.map(field => [field, deleteField()]));
+};
+
+// A recurring series is stored once, as its first booking with a recurrence rule (the
+// series master), and expanded into occurrences whenever bookings are read
+const fetchSeriesMasters = async (): Promise<Booking[]> => {
+  const q = query(
+    collection(db, 'bookings'),
+    where('recurrence.frequency', 'in', ['weekly', 'fortnightly'])
+  );
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => toBooking(doc.id, doc.data()));
+};
+
+// Fields an occurrence inherits from its series, without the series bookkeeping
+const getSeriesFields = (master: Booking): Record<string, unknown> => {
+  const fields: Partial<Booking> = { ...master };
+  delete fields.id;
+  delete fields.createdAt;
+  delete fields.recurrence;
+  delete fields.excludedDates;
+  delete fields.seriesId;
+  delete fields.occurrenceDate;
+  delete fields.history;
+  return withoutEmptyValues(fields);
+};
+
 export const getBookingsByDate = async (date: string, forceRefresh = false): Promise<Booking[]> => {
   try {
     // Log for debugging with timestamp to track when this function is called
@@ -59,28 +516,15 @@ export const getBookingsByDate = async (date: string, forceRefresh = false): Pro
     console.log('Document IDs:', querySnapshot.docs.map(doc => doc.id));
     
     if (querySnapshot.empty) {
-      console.log(`[${timestamp}] No bookings found for date`, date);
-      return []; // Return empty array when no bookings found
+      console.log(`[${timestamp}] No single bookings found for date`, date);
     }
     
     // Process each booking document with better error handling
-    const bookings = querySnapshot.docs.map(doc => {
+    const storedBookings = querySnapshot.docs.map(doc => {
       try {
         const data = doc.data();
         console.log('Processing booking document:', doc.id, data);
-        
-        // Ensure all required fields exist
-        return {
-          id: doc.id,
-          apartmentId: data.apartmentId || '',
-          date: data.date || '',
-          startTime: data.startTime || '00:00',
-          endTime: data.endTime || '00:00',
-          bookedBy: data.bookedBy || 'unknown',
-          status: data.status || 'booked',
-          createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
-          userName: data.userName || ''
-        } as Booking;
+        return toBooking(doc.id, data);
       } catch (docError) {
         console.error('Error processing booking document:', docError, 'Document ID:', doc.id);
         // Return a minimally valid booking object to prevent crashes
@@ -96,6 +540,13 @@ export const getBookingsByDate = async (date: string, forceRefresh = false): Pro
       }
     });
     
+    // Series masters are skipped here and expanded below, together with the rest of their series
+    const seriesMasters = await fetchSeriesMasters();
+    const bookings = [
+      ...storedBookings.filter(booking => !booking.recurrence),
+      ...expandRecurringBookings(seriesMasters, [date])
+    ].sort((a, b) => a.startTime.localeCompare(b.startTime));
+    
     // Log processed bookings for debugging
     console.log(`[${timestamp}] Processed ${bookings.length} bookings for date:`, date);
     bookings.forEach((booking, index) => {
@@ -115,6 +566,34 @@ export const getBookingsByDate = async (date: string, forceRefresh = false): Pro
   }
 };
 
+// Bookings from startDate to endDate (inclusive), ordered by date and start time.
+// Needs the date + startTime composite index from firestore.indexes.json.
+export const getBookingsInRange = async (startDate: string, endDate: string): Promise<Booking[]> => {
+  try {
+    const q = query(
+      collection(db, 'bookings'),
+      where('date', '>=', startDate),
+      where('date', '<=', endDate),
+      orderBy('date'),
+      orderBy('startTime')
+    );
+    const querySnapshot = await getDocs(q);
+    const dates = eachDayOfInterval({
+      start: parse(startDate, 'yyyy-MM-dd', new Date()),
+      end: parse(endDate, 'yyyy-MM-dd', new Date())
+    }).map(day => format(day, 'yyyy-MM-dd'));
+    
+    const seriesMasters = await fetchSeriesMasters();
+    return [
+      ...querySnapshot.docs.map(doc => toBooking(doc.id, doc.data())).filter(booking => !booking.recurrence),
+      ...expandRecurringBookings(seriesMasters, dates)
+    ].sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+  } catch (error) {
+    console.error('Error getting bookings in range:', error);
+    throw error;
+  }
+};
+
 export const getBookingsByApartmentAndDate = async (apartmentId: string, date: string): Promise<Booking[]> => {
   try {
     const q = query(
@@ -124,21 +603,198 @@ export const getBookingsByApartmentAndDate = async (apartmentId: string, date: s
       orderBy('startTime')
     );
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate() || new Date()
-    })) as Booking[];
+    const seriesMasters = (await fetchSeriesMasters()).filter(master => master.apartmentId === apartmentId);
+    return [
+      ...querySnapshot.docs.map(doc => toBooking(doc.id, doc.data())).filter(booking => !booking.recurrence),
+      ...expandRecurringBookings(seriesMasters, [date])
+    ].sort((a, b) => a.startTime.localeCompare(b.startTime));
   } catch (error) {
     console.error('Error getting bookings for apartment:', error);
     throw error;
   }
 };
 
+// Every booking write for a date also writes this lock document. Transactions read it
+// first, so two writes for the same day can't both commit - the loser is retried and
+// re-runs its conflict check against the winner's booking.
+const getBookingLockRef = (date: string) => doc(db, 'bookingLocks', date);
+
+// Fetch the bookings of the given dates for conflict checks - unlike getBookingsByDate
+// this throws on failure, so a failed read can never look like an empty day
+const fetchBookingsForConflictCheck = async (dates: string[]): Promise<Booking[]> => {
+  const storedBookings: Booking[] = [];
+  
+  // Firestore 'in' queries accept at most 30 values
+  for (let i = 0; i < dates.length; i += 30) {
+    const q = query(collection(db, 'bookings'), where('date', 'in', dates.slice(i, i + 30)));
+    const querySnapshot = await getDocs(q);
+    querySnapshot.docs.forEach(doc => storedBookings.push(toBooking(doc.id, doc.data())));
+  }
+  
+  const seriesMasters = await fetchSeriesMasters();
+  return [
+    ...storedBookings.filter(booking => !booking.recurrence),
+    ...expandRecurringBookings(seriesMasters, dates)
+  ];
+};
+
+// The time ranges a booking occupies - one per occurrence for a recurring series
+const getBookingCandidates = (booking: Booking): BookingCandidate[] => {
+  return getActiveOccurrenceDates(booking).map(date => ({
+    id: booking.id,
+    apartmentId: booking.apartmentId,
+    date,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+    isBlock: booking.status === 'unavailable',
+    coachId: booking.coachId,
+    lessonTypeId: booking.lessonTypeId,
+    capacity: booking.capacity,
+    students: booking.students
+  }));
+};
+
+// Lock the candidates' dates inside a transaction and reject them if any conflicts,
+// falls on a closed day or breaks the coach's limits. pendingBookings are bookings
+// saved earlier in the same transaction.
+const assertNoBookingConflicts = async (
+  transaction: Transaction,
+  candidates: BookingCandidate[],
+  pendingBookings: Booking[] = []
+): Promise<void> => {
+  if (candidates.length === 0) return;
+  
+  const dates = [...new Set(candidates.map(candidate => candidate.date))];
+  await Promise.all(dates.map(date => transaction.get(getBookingLockRef(date))));
+
+  // Queries can't run inside a transaction, but the lock reads above make the
+  // transaction retry (and re-run this query) if another write landed meanwhile
+  const existingBookings = [...await fetchBookingsForConflictCheck(dates), ...pendingBookings];
+  const travelTimes = await getTravelTimes();
+  const instructors = await getInstructors();
+  const defaultCoachId = getDefaultCoachId(instructors);
+
+  // Every coach has their own itinerary. Blocks without a coach apply to every coach,
+  // lessons without one belong to the default coach.
+  for (const candidate of candidates) {
+    const coachIds = candidate.coachId
+      ? [candidate.coachId]
+      : candidate.isBlock && instructors.length > 0
+        ? instructors.map(instructor => instructor.id)
+        : [defaultCoachId];
+    
+    for (const coachId of coachIds) {
+      const coachBookings = getCoachBookings(existingBookings, coachId, defaultCoachId);
+      const conflict = findBookingConflict(candidate, coachBookings, travelTimes);
+      if (conflict) {
+        throw new BookingConflictError(conflict);
+      }
+    }
+  }
+  
+  const sortedDates = [...dates].sort();
+  const closures = await getClosuresInRange(sortedDates[0], sortedDates[sortedDates.length - 1]);
+  for (const candidate of candidates) {
+    const closure = findClosure(closures, candidate.apartmentId, candidate.date);
+    if (closure) {
+      throw new BookingClosedError(closure);
+    }
+  }
+  
+  for (const candidate of candidates.filter(candidate => !candidate.isBlock)) {
+    const coachId = candidate.coachId || defaultCoachId;
+    const coachProfile = instructors.find(instructor => instructor.id === coachId)?.profile || null;
+    const coachBookings = getCoachBookings(existingBookings, coachId, defaultCoachId);
+    const coachLimit = findCoachLimit(candidate, coachBookings, coachProfile);
+    if (coachLimit && coachProfile) {
+      throw new CoachLimitError(coachLimit, coachProfile);
+    }
+  }
+};
+
+const touchBookingLocks = (transaction: Transaction, dates: string[]): void => {
+  [...new Set(dates)].forEach(date => {
+    transaction.set(getBookingLockRef(date), { updatedAt: serverTimestamp() }, { merge: true });
+  });
+};
+
+// How far ahead the slot search looks, and how many days it loads at a time
+const SLOT_SEARCH_DAYS = 56;
+const SLOT_SEARCH_BATCH_DAYS = 7;
+
+// The next free slots matching a resident's preferences, starting from a date
+export const findNextAvailableSlots = async (
+  preferences: SlotSearchPreferences,
+  fromDate: string,
+  limit: number
+): Promise<TimeSlot[]> => {
+  try {
+    const apartments = await getApartments();
+    const travelTimes = await getTravelTimes();
+    const instructors = await getInstructors();
+    const firstDay = parse(fromDate, 'yyyy-MM-dd', new Date());
+    const results: TimeSlot[] = [];
+    
+    // Load a week at a time so a quiet schedule doesn't read two months of bookings
+    for (let offset = 0; offset < SLOT_SEARCH_DAYS && results.length < limit; offset += SLOT_SEARCH_BATCH_DAYS) {
+      const dates = eachDayOfInterval({
+        start: addDays(firstDay, offset),
+        end: addDays(firstDay, Math.min(offset + SLOT_SEARCH_BATCH_DAYS, SLOT_SEARCH_DAYS) - 1)
+      }).map(day => format(day, 'yyyy-MM-dd'));
+      const bookings = await getBookingsInRange(dates[0], dates[dates.length - 1]);
+      const closures = await getClosuresInRange(dates[0], dates[dates.length - 1]);
+      
+      results.push(...findAvailableSlots(
+        apartments, dates, bookings, closures, travelTimes, instructors, preferences, limit - results.length
+      ));
+    }
+    
+    return results;
+  } catch (error) {
+    console.error('Error searching for available slots:', error);
+    throw error;
+  }
+};
+
+// How far ahead a user's recurring lessons are listed as upcoming bookings
+const UPCOMING_OCCURRENCE_DAYS = 28;
+
+// Upcoming bookings made by a user, soonest first
+export const getUpcomingBookingsByUser = async (userId: string): Promise<Booking[]> => {
+  try {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const horizon = format(addDays(new Date(), UPCOMING_OCCURRENCE_DAYS), 'yyyy-MM-dd');
+    const q = query(
+      collection(db, 'bookings'),
+      where('bookedBy', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    const storedBookings = querySnapshot.docs.map(doc => toBooking(doc.id, doc.data()));
+    
+    const occurrences = storedBookings
+      .filter(booking => booking.recurrence)
+      .flatMap(master => getActiveOccurrenceDates(master)
+        .filter(date => date >= today && date <= horizon)
+        .map(date => createOccurrence(master, date)));
+    
+    // Holds are only a step of booking, not bookings of their own yet
+    return [...storedBookings.filter(booking => !booking.recurrence && booking.status !== 'held'), ...occurrences]
+      .filter(booking => booking.date >= today)
+      .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+  } catch (error) {
+    console.error('Error getting bookings for user:', error);
+    throw error;
+  }
+};
+
 export const addBooking = async (booking: Omit<Booking, 'id' | 'createdAt'>): Promise<string> => {
   try {
     console.log('Adding new booking:', booking);
     
+    if (booking.recurrence && !booking.recurrence.until && !booking.recurrence.count) {
+      throw new Error('Recurring lessons need an end date or a number of lessons.');
+    }
+    
     // Make sure we have all required fields
     const bookingData = {
       ...booking,
@@ -147,11 +803,19 @@ export const addBooking = async (booking: Omit<Booking, 'id' | 'createdAt'>): Pr
       startTime: booking.startTime || '',
       endTime: booking.endTime || '',
       bookedBy: booking.bookedBy || 'admin',
-      status: booking.status || 'booked',
-      createdAt: serverTimestamp()
+      status: booking.status || 'confirmed'
     };
     
-    const docRef = await addDoc(collection(db, 'bookings'), bookingData);
+    const docRef = doc(collection(db, 'bookings'));
+    // A recurring booking is checked and locked on every date it occurs
+    const candidates = getBookingCandidates({ ...bookingData, id: docRef.id, createdAt: new Date() });
+    
+    await runTransaction(db, async (transaction) => {
+      await assertNoBookingConflicts(transaction, candidates);
+      touchBookingLocks(transaction, candidates.map(candidate => candidate.date));
+      transaction.set(docRef, { ...withoutEmptyValues(bookingData), createdAt: serverTimestamp() });
+    });
+    
     console.log('Booking added successfully with ID:', docRef.id);
     return docRef.id;
   } catch (error) {
@@ -160,19 +824,91 @@ export const addBooking = async (booking: Omit<Booking, 'id' | 'createdAt'>): Pr
   }
 };
 
-export const updateBooking = async (id: string, booking: Partial<Booking>): Promise<void> => {
+// Save several bookings in one transaction - all of them or none, e.g. an accepted route proposal
+export const addBookings = async (bookings: Omit<Booking, 'id' | 'createdAt'>[]): Promise<string[]> => {
+  try {
+    const newBookings = bookings.map(booking => {
+      const docRef = doc(collection(db, 'bookings'));
+      const bookingData = { ...booking, bookedBy: booking.bookedBy || 'admin', status: booking.status || 'confirmed' };
+      return { docRef, bookingData, saved: { ...bookingData, id: docRef.id, createdAt: new Date() } as Booking };
+    });
+    
+    await runTransaction(db, async (transaction) => {
+      // Each booking is also checked against the ones before it - all reads before any write
+      for (let i = 0; i < newBookings.length; i++) {
+        const previous = newBookings.slice(0, i).map(newBooking => newBooking.saved);
+        await assertNoBookingConflicts(transaction, getBookingCandidates(newBookings[i].saved), previous);
+      }
+      touchBookingLocks(transaction, newBookings.flatMap(newBooking =>
+        getBookingCandidates(newBooking.saved).map(candidate => candidate.date)
+      ));
+      newBookings.forEach(({ docRef, bookingData }) => {
+        transaction.set(docRef, { ...withoutEmptyValues(bookingData), createdAt: serverTimestamp() });
+      });
+    });
+    
+    return newBookings.map(newBooking => newBooking.docRef.id);
+  } catch (error) {
+    console.error('Error adding bookings:', error);
+    throw error;
+  }
+};
+
+// Book the first of the given coaches who is still free - for residents booking "any coach"
+export const addBookingWithAnyCoach = async (
+  booking: Omit<Booking, 'id' | 'createdAt'>,
+  coachIds: string[]
+): Promise<string> => {
+  let lastError: unknown = new Error('No coach is free at this time.');
+  
+  for (const coachId of coachIds) {
+    try {
+      return await addBooking({ ...booking, coachId });
+    } catch (error) {
+      // Someone else may have booked this coach since the grid loaded, so try the next one
+      if (error instanceof BookingConflictError || error instanceof CoachLimitError) {
+        lastError = error;
+        continue;
+      }
+      throw error;
+    }
+  }
+  
+  throw lastError;
+};
+
+export const updateBooking = async (
+  id: string,
+  booking: Partial<Booking>,
+  clearedFields: (keyof Booking)[] = []
+): Promise<void> => {
   try {
-    console.log('Updating booking:', id, booking);
+    console.log('Updating booking:', id, booking, 'clearing:', clearedFields);
     
     // Filter out any undefined/null values
-    const validBookingData = Object.entries(booking).reduce((acc, [key, value]) => {
-      if (value !== undefined && value !== null) {
-        acc[key] = value;
+    const validBookingData = withoutEmptyValues(booking);
+    
+    const bookingRef = doc(db, 'bookings', id);
+    
+    await runTransaction(db, async (transaction) => {
+      const bookingSnap = await transaction.get(bookingRef);
+      if (!bookingSnap.exists()) {
+        throw new Error(`Booking ${id} not found`);
       }
-      return acc;
-    }, {} as Record<string, any>);
+      
+      // Check the booking as it will look after the update
+      const currentBooking = toBooking(id, bookingSnap.data());
+      const updatedBooking = withoutFields({ ...currentBooking, ...validBookingData } as Booking, clearedFields);
+      const candidates = getBookingCandidates(updatedBooking);
+      await assertNoBookingConflicts(transaction, candidates);
+      
+      touchBookingLocks(transaction, [
+        ...getActiveOccurrenceDates(currentBooking),
+        ...candidates.map(candidate => candidate.date)
+      ]);
+      transaction.set(bookingRef, { ...validBookingData, ...toFieldDeletions(clearedFields) }, { merge: true });
+    });
     
-    await setDoc(doc(db, 'bookings', id), validBookingData, { merge: true });
     console.log('Booking updated successfully:', id);
   } catch (error) {
     console.error('Error updating booking:', error);
@@ -188,3 +924,854 @@ export const deleteBooking = async (id: string): Promise<void> => {
     throw error;
   }
 };
+
+// Recurring Booking Operations
+
+// Read the series master of a generated occurrence inside a transaction
+const getSeriesMaster = async (transaction: Transaction, occurrence: Booking): Promise<Booking> => {
+  const seriesId = occurrence.seriesId || occurrence.id;
+  const masterSnap = await transaction.get(doc(db, 'bookings', seriesId));
+  if (!masterSnap.exists()) {
+    throw new Error(`Booking series ${seriesId} not found`);
+  }
+  return toBooking(masterSnap.id, masterSnap.data());
+};
+
+/**
+ * Edit one occurrence of a recurring lesson, or it and all following occurrences
+ *
+ * - 'this' moves the occurrence out of the series into a booking of its own
+ * - 'following' ends the series before the occurrence and starts a new series with
+ *   the changes from the occurrence onwards (or updates the whole series when the
+ *   occurrence is the first one)
+ *
+ * Occurrences that were already edited separately are left untouched either way.
+ */
+export const updateBookingOccurrence = async (
+  occurrence: Booking,
+  changes: Partial<Booking>,
+  scope: RecurrenceScope,
+  clearedFields: (keyof Booking)[] = []
+): Promise<void> => {
+  try {
+    console.log('Updating booking occurrence:', occurrence.id, changes, 'scope:', scope, 'clearing:', clearedFields);
+    
+    const validChanges = withoutEmptyValues(changes);
+    const occurrenceDate = occurrence.occurrenceDate || occurrence.date;
+    
+    await runTransaction(db, async (transaction) => {
+      const master = await getSeriesMaster(transaction, occurrence);
+      const masterRef = doc(db, 'bookings', master.id);
+      
+      if (scope === 'this') {
+        const detachedRef = doc(collection(db, 'bookings'));
+        const detached = {
+          ...withoutFields(getSeriesFields(master), clearedFields),
+          date: occurrenceDate,
+          ...validChanges,
+          seriesId: master.id,
+          occurrenceDate
+        } as Omit<Booking, 'id' | 'createdAt'>;
+        
+        // The occurrence being replaced is skipped by the conflict check through its id
+        await assertNoBookingConflicts(transaction, [{
+          ...detached,
+          id: occurrence.id,
+          isBlock: detached.status === 'unavailable'
+        }]);
+        
+        touchBookingLocks(transaction, [occurrenceDate, detached.date]);
+        transaction.update(masterRef, { excludedDates: arrayUnion(occurrenceDate) });
+        transaction.set(detachedRef, { ...detached, createdAt: serverTimestamp() });
+        return;
+      }
+      
+      // Editing from the first occurrence onwards changes the whole series
+      if (occurrenceDate <= master.date) {
+        const updatedMaster = withoutFields({ ...master, ...validChanges } as Booking, clearedFields);
+        const candidates = getBookingCandidates(updatedMaster);
+        await assertNoBookingConflicts(transaction, candidates);
+        
+        touchBookingLocks(transaction, [
+          ...getActiveOccurrenceDates(master),
+          ...candidates.map(candidate => candidate.date)
+        ]);
+        transaction.set(masterRef, { ...validChanges, ...toFieldDeletions(clearedFields) }, { merge: true });
+        return;
+      }
+      
+      const truncatedRule = truncateRecurrence(master, occurrenceDate);
+      const continuedRule = continueRecurrence(master, occurrenceDate);
+      if (!truncatedRule || !continuedRule) {
+        throw new Error(`Occurrence ${occurrenceDate} is not part of booking series ${master.id}`);
+      }
+      
+      const newMasterRef = doc(collection(db, 'bookings'));
+      const newMaster = {
+        ...withoutFields(getSeriesFields(master), clearedFields),
+        date: occurrenceDate,
+        ...validChanges,
+        recurrence: continuedRule
+      } as Omit<Booking, 'id' | 'createdAt'>;
+      // Occurrences already removed from the series stay removed, unless the lessons move to another day
+      const carriedExclusions = newMaster.date === occurrenceDate
+        ? (master.excludedDates || []).filter(date => date >= occurrenceDate)
+        : [];
+      
+      // Checked with the old series id, so the occurrences it replaces are skipped
+      const candidates = getBookingCandidates({
+        ...newMaster,
+        excludedDates: carriedExclusions,
+        id: master.id,
+        createdAt: new Date()
+      });
+      await assertNoBookingConflicts(transaction, candidates);
+      
+      touchBookingLocks(transaction, [
+        ...getActiveOccurrenceDates(master).filter(date => date >= occurrenceDate),
+        ...candidates.map(candidate => candidate.date)
+      ]);
+      transaction.update(masterRef, {
+        recurrence: truncatedRule,
+        excludedDates: (master.excludedDates || []).filter(date => date < occurrenceDate)
+      });
+      transaction.set(newMasterRef, {
+        ...newMaster,
+        excludedDates: carriedExclusions,
+        createdAt: serverTimestamp()
+      });
+    });
+    
+    console.log('Booking occurrence updated successfully:', occurrence.id);
+  } catch (error) {
+    console.error('Error updating booking occurrence:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete one occurrence of a recurring lesson, or it and all following occurrences
+ *
+ * Deleting from the first occurrence onwards deletes the whole series. Occurrences
+ * that were edited separately are deleted too when they fall in the deleted range.
+ */
+export const deleteBookingOccurrence = async (occurrence: Booking, scope: RecurrenceScope): Promise<void> => {
+  try {
+    console.log('Deleting booking occurrence:', occurrence.id, 'scope:', scope);
+    
+    const seriesId = occurrence.seriesId || occurrence.id;
+    const occurrenceDate = occurrence.occurrenceDate || occurrence.date;
+    
+    // Separately edited occurrences are standalone documents pointing back at the series
+    const detachedSnapshot = scope === 'following'
+      ? await getDocs(query(collection(db, 'bookings'), where('seriesId', '==', seriesId)))
+      : null;
+    const detachedRefs = (detachedSnapshot?.docs || [])
+      .filter(detachedDoc => (detachedDoc.data().occurrenceDate || detachedDoc.data().date) >= occurrenceDate)
+      .map(detachedDoc => detachedDoc.ref);
+    
+    await runTransaction(db, async (transaction) => {
+      const master = await getSeriesMaster(transaction, occurrence);
+      const masterRef = doc(db, 'bookings', master.id);
+      
+      if (scope === 'this') {
+        touchBookingLocks(transaction, [occurrenceDate]);
+        transaction.update(masterRef, { excludedDates: arrayUnion(occurrenceDate) });
+        return;
+      }
+      
+      touchBookingLocks(transaction, getActiveOccurrenceDates(master).filter(date => date >= occurrenceDate));
+      detachedRefs.forEach(detachedRef => transaction.delete(detachedRef));
+      
+      const truncatedRule = truncateRecurrence(master, occurrenceDate);
+      if (truncatedRule) {
+        transaction.update(masterRef, {
+          recurrence: truncatedRule,
+          excludedDates: (master.excludedDates || []).filter(date => date < occurrenceDate)
+        });
+      } else {
+        transaction.delete(masterRef);
+      }
+    });
+    
+    console.log('Booking occurrence deleted successfully:', occurrence.id);
+  } catch (error) {
+    console.error('Error deleting booking occurrence:', error);
+    throw error;
+  }
+};
+
+// Booking Lifecycle Operations
+
+// A booking read inside a transaction - for a generated occurrence, its series master holds the data
+interface StoredBooking {
+  ref: DocumentReference;
+  stored: Booking;        // the booking as stored in the document
+  current: Booking;       // the booking the status change applies to
+  isOccurrence: boolean;
+}
+
+const readStoredBooking = async (transaction: Transaction, booking: Booking): Promise<StoredBooking> => {
+  const isOccurrence = isGeneratedOccurrence(booking);
+  const ref = doc(db, 'bookings', isOccurrence ? booking.seriesId || booking.id : booking.id);
+  const snap = await transaction.get(ref);
+  if (!snap.exists()) {
+    throw new Error('This booking no longer exists.');
+  }
+  
+  const stored = toBooking(snap.id, snap.data());
+  if (isOccurrence && !getActiveOccurrenceDates(stored).includes(booking.date)) {
+    throw new Error('This booking no longer exists.');
+  }
+  
+  return { ref, stored, current: isOccurrence ? createOccurrence(stored, booking.date) : stored, isOccurrence };
+};
+
+// Check the actor may move the booking to the new status at this point of the lesson
+const assertTransitionAllowed = (current: Booking, to: BookingStatus, actor: BookingActor): void => {
+  if (actor.role === 'user' && current.bookedBy !== actor.id) {
+    throw new Error('You can only change your own bookings.');
+  }
+  if (!getAvailableTransitions(current, actor.role).includes(to)) {
+    const from = STATUS_LABELS[current.status || 'confirmed'].toLowerCase();
+    throw new Error(`A ${from} booking can't be changed to ${STATUS_LABELS[to].toLowerCase()} now.`);
+  }
+};
+
+// The history entry for a status change - server timestamps aren't allowed inside
+// arrays, so it uses the client's clock
+const createTransition = (current: Booking, to: BookingStatus, actor: BookingActor, reason?: string) => ({
+  from: current.status || 'confirmed',
+  to,
+  by: actor.id,
+  role: actor.role,
+  at: Timestamp.now(),
+  ...(reason ? { reason } : {})
+});
+
+/**
+ * Write a status change inside a transaction and add it to the booking's history
+ *
+ * A generated occurrence of a recurring lesson is split off its series into a booking
+ * of its own, so the rest of the series keeps its status.
+ */
+const writeTransition = (
+  transaction: Transaction,
+  { ref, stored, current, isOccurrence }: StoredBooking,
+  to: BookingStatus,
+  actor: BookingActor,
+  fields: DocumentData = {},
+  reason?: string
+): void => {
+  const transition = createTransition(current, to, actor, reason);
+  
+  touchBookingLocks(transaction, getActiveOccurrenceDates(current));
+  if (isOccurrence) {
+    transaction.update(ref, { excludedDates: arrayUnion(current.date) });
+    transaction.set(doc(collection(db, 'bookings')), {
+      ...getSeriesFields(stored),
+      date: current.date,
+      seriesId: stored.id,
+      occurrenceDate: current.date,
+      ...fields,
+      status: to,
+      history: [transition],
+      createdAt: serverTimestamp()
+    });
+  } else {
+    transaction.update(ref, { ...fields, status: to, history: arrayUnion(transition) });
+  }
+};
+
+/**
+ * Move a booking to another status of its lifecycle, e.g. mark a lesson completed
+ *
+ * Only the moves allowed for the actor's role are accepted - see getAvailableTransitions.
+ * Requests are approved with approveBooking and residents cancel with cancelBooking,
+ * since those need more checks. A slot freed by declining or cancelling is only offered
+ * to its waitlist with releaseToWaitlist, since the coach may not be free at that time.
+ */
+export const transitionBooking = async (
+  booking: Booking,
+  to: BookingStatus,
+  actor: BookingActor,
+  reason?: string,
+  releaseToWaitlist = false
+): Promise<void> => {
+  try {
+    console.log('Changing booking status:', booking.id, 'to:', to, 'by:', actor.id);
+    
+    await runTransaction(db, async (transaction) => {
+      const target = await readStoredBooking(transaction, booking);
+      assertTransitionAllowed(target.current, to, actor);
+      
+      const fields: DocumentData = {};
+      if (to === 'declined') {
+        fields.declinedAt = serverTimestamp();
+        if (reason) fields.declineReason = reason;
+      } else if (to === 'cancelled-by-coach') {
+        fields.cancelledAt = serverTimestamp();
+        fields.cancelledBy = actor.id;
+      }
+      writeTransition(transaction, target, to, actor, fields, reason);
+    });
+    
+    console.log('Booking status changed:', booking.id);
+    if (releaseToWaitlist && !isBlockingStatus(to)) {
+      await offerFreedSlot(booking);
+    }
+  } catch (error) {
+    console.error('Error changing booking status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel an occurrence of a recurring lesson and all following occurrences
+ *
+ * The series ends before the occurrence, and the cancelled occurrences move to a series
+ * of their own with the cancelled status, so they stay on record like any other
+ * cancelled lesson. Cancelling from the first occurrence onwards cancels the whole
+ * series. Occurrences that were edited separately are cancelled too when they fall in
+ * the cancelled range and can still be cancelled. Admins cancel as the coach, residents
+ * as themselves.
+ */
+export const cancelFollowingOccurrences = async (
+  occurrence: Booking,
+  actor: BookingActor,
+  reason?: string
+): Promise<void> => {
+  try {
+    console.log('Cancelling booking occurrence and following:', occurrence.id, 'by:', actor.id);
+    
+    const to: BookingStatus = actor.role === 'admin' ? 'cancelled-by-coach' : 'cancelled-by-resident';
+    const seriesId = occurrence.seriesId || occurrence.id;
+    const occurrenceDate = occurrence.occurrenceDate || occurrence.date;
+    
+    // Separately edited occurrences are standalone documents pointing back at the series
+    const detachedSnapshot = await getDocs(query(collection(db, 'bookings'), where('seriesId', '==', seriesId)));
+    const detachedRefs = detachedSnapshot.docs
+      .filter(detachedDoc => (detachedDoc.data().occurrenceDate || detachedDoc.data().date) >= occurrenceDate)
+      .map(detachedDoc => detachedDoc.ref);
+    
+    await runTransaction(db, async (transaction) => {
+      const master = await getSeriesMaster(transaction, occurrence);
+      const masterRef = doc(db, 'bookings', master.id);
+      const detachedSnaps = await Promise.all(detachedRefs.map(detachedRef => transaction.get(detachedRef)));
+      
+      const current = createOccurrence(master, occurrenceDate);
+      assertTransitionAllowed(current, to, actor);
+      
+      const fields: DocumentData = {
+        status: to,
+        cancelledAt: serverTimestamp(),
+        cancelledBy: actor.id
+      };
+      const transition = createTransition(current, to, actor, reason);
+      
+      const cancelledDetached = detachedSnaps
+        .filter(detachedSnap => detachedSnap.exists())
+        .map(detachedSnap => ({ ref: detachedSnap.ref, detached: toBooking(detachedSnap.id, detachedSnap.data()) }))
+        .filter(({ detached }) => getAvailableTransitions(detached, actor.role).includes(to));
+      
+      touchBookingLocks(transaction, [
+        ...getActiveOccurrenceDates(master).filter(date => date >= occurrenceDate),
+        ...cancelledDetached.map(({ detached }) => detached.date)
+      ]);
+      cancelledDetached.forEach(({ ref, detached }) => {
+        transaction.update(ref, {
+          ...fields,
+          history: arrayUnion(createTransition(detached, to, actor, reason))
+        });
+      });
+      
+      // Cancelling from the first occurrence onwards cancels the whole series
+      if (occurrenceDate <= master.date) {
+        transaction.update(masterRef, { ...fields, history: arrayUnion(transition) });
+        return;
+      }
+      
+      const truncatedRule = truncateRecurrence(master, occurrenceDate);
+      const continuedRule = continueRecurrence(master, occurrenceDate);
+      if (!truncatedRule || !continuedRule) {
+        throw new Error(`Occurrence ${occurrenceDate} is not part of booking series ${master.id}`);
+      }
+      
+      transaction.update(masterRef, {
+        recurrence: truncatedRule,
+        excludedDates: (master.excludedDates || []).filter(date => date < occurrenceDate)
+      });
+      transaction.set(doc(collection(db, 'bookings')), {
+        ...getSeriesFields(master),
+        date: occurrenceDate,
+        recurrence: continuedRule,
+        excludedDates: (master.excludedDates || []).filter(date => date >= occurrenceDate),
+        ...fields,
+        history: [transition],
+        createdAt: serverTimestamp()
+      });
+    });
+    
+    console.log('Booking occurrences cancelled:', occurrence.id);
+  } catch (error) {
+    console.error('Error cancelling booking occurrences:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel a resident's own booking
+ *
+ * The booking is kept as cancelled by the resident, so it no longer blocks the slot but
+ * stays on record. Cancelling within the apartment's cancellation cutoff is also marked
+ * as a late cancellation, and returns true.
+ *
+ * Cancelling an occurrence of a recurring lesson only cancels that occurrence.
+ */
+export const cancelBooking = async (booking: Booking, userId: string): Promise<boolean> => {
+  try {
+    console.log('Cancelling booking:', booking.id, 'for user:', userId);
+    
+    const isLate = await runTransaction(db, async (transaction) => {
+      const target = await readStoredBooking(transaction, booking);
+      const { current } = target;
+      if (current.bookedBy !== userId) {
+        throw new Error('You can only cancel your own bookings.');
+      }
+      if (isCancelledStatus(current.status)) {
+        throw new Error('This booking has already been cancelled.');
+      }
+      if (current.status === 'declined') {
+        throw new Error('This booking request has already been declined.');
+      }
+      
+      const lessonStart = parse(`${current.date} ${current.startTime}`, 'yyyy-MM-dd HH:mm', new Date());
+      if (!isAfter(lessonStart, new Date())) {
+        throw new Error('Lessons that have already started can\'t be cancelled.');
+      }
+      assertTransitionAllowed(current, 'cancelled-by-resident', { id: userId, role: 'user' });
+      
+      const apartmentSnap = await transaction.get(doc(db, 'apartments', current.apartmentId));
+      const apartment = apartmentSnap.exists()
+        ? { id: apartmentSnap.id, ...apartmentSnap.data() } as Apartment
+        : undefined;
+      // Withdrawing a request the coach hasn't confirmed yet is never late
+      const late = current.status !== 'requested' && isLateCancellation(current, apartment);
+      
+      writeTransition(transaction, target, 'cancelled-by-resident', { id: userId, role: 'user' }, {
+        lateCancellation: late,
+        cancelledBy: userId,
+        cancelledAt: serverTimestamp()
+      });
+      
+      return late;
+    });
+    
+    console.log(`Booking ${booking.id} cancelled${isLate ? ' (late cancellation recorded)' : ''}`);
+    await offerFreedSlot(booking);
+    return isLate;
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    throw error;
+  }
+};
+
+// Bookings waiting for an admin to approve them, soonest first
+export const getBookingRequests = async (): Promise<Booking[]> => {
+  try {
+    const q = query(collection(db, 'bookings'), where('status', '==', 'requested'));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toBooking(doc.id, doc.data()))
+      .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+  } catch (error) {
+    console.error('Error getting booking requests:', error);
+    throw error;
+  }
+};
+
+/**
+ * Approve a resident's booking request
+ *
+ * The request is checked again before it's confirmed - closures, blocks or coach limits
+ * added since it was made are rejected with the same errors as a new booking.
+ * Approving a recurring request from the queue approves the whole series.
+ */
+export const approveBooking = async (booking: Booking, actor: BookingActor): Promise<void> => {
+  try {
+    console.log('Approving booking request:', booking.id);
+    
+    await runTransaction(db, async (transaction) => {
+      const target = await readStoredBooking(transaction, booking);
+      assertTransitionAllowed(target.current, 'confirmed', actor);
+      
+      await assertNoBookingConflicts(transaction, getBookingCandidates(target.current));
+      writeTransition(transaction, target, 'confirmed', actor, { approvedAt: serverTimestamp() });
+    });
+    
+    console.log('Booking request approved:', booking.id);
+  } catch (error) {
+    console.error('Error approving booking request:', error);
+    throw error;
+  }
+};
+
+// Decline a resident's booking request - it's kept with the reason so the resident can see it
+export const declineBooking = async (booking: Booking, reason: string, actor: BookingActor): Promise<void> => {
+  await transitionBooking(booking, 'declined', actor, reason.trim() || undefined);
+};
+
+// Slot Hold Operations
+
+/**
+ * Hold a slot for a resident while they confirm the booking
+ *
+ * The hold is a booking that keeps everyone else off the slot for SLOT_HOLD_MINUTES,
+ * and goes through the same checks as a booking. With several coaches, the first one
+ * still free is held. A hold that's neither confirmed nor released stops blocking the
+ * slot once it runs out - see isActiveBooking.
+ */
+export const holdSlot = async (
+  slot: Omit<Booking, 'id' | 'createdAt' | 'status'>,
+  coachIds: string[] = []
+): Promise<Booking> => {
+  try {
+    const hold = {
+      ...slot,
+      status: 'held' as const,
+      holdExpiresAt: addMinutes(new Date(), SLOT_HOLD_MINUTES)
+    };
+    const id = coachIds.length > 0
+      ? await addBookingWithAnyCoach(hold, coachIds)
+      : await addBooking(hold);
+    
+    // Read back the coach addBookingWithAnyCoach picked
+    const held = await getDoc(doc(db, 'bookings', id));
+    return held.exists() ? toBooking(id, held.data()) : { ...hold, id, createdAt: new Date() };
+  } catch (error) {
+    console.error('Error holding slot:', error);
+    throw error;
+  }
+};
+
+/**
+ * Turn a resident's hold into their booking, or a request at pools that need approval
+ *
+ * The booking is checked again as it's saved, since the hold may have run out meanwhile
+ * or the resident may have picked another coach or lesson type. Every field passed in
+ * choices replaces the held one, even when it's left empty. A hold that ran out and was
+ * already cleared away is booked afresh under the same id.
+ */
+export const confirmSlotHold = async (
+  hold: Booking,
+  to: 'requested' | 'confirmed',
+  userId: string,
+  choices: Pick<Booking, 'coachId' | 'lessonTypeId' | 'capacity' | 'students'> = {}
+): Promise<void> => {
+  try {
+    const ref = doc(db, 'bookings', hold.id);
+    const actor: BookingActor = { id: userId, role: 'user' };
+    
+    await runTransaction(db, async (transaction) => {
+      const snap = await transaction.get(ref);
+      const current = snap.exists() ? toBooking(snap.id, snap.data()) : hold;
+      assertTransitionAllowed(current, to, actor);
+      const choose = <K extends keyof typeof choices>(field: K): Booking[K] | undefined =>
+        field in choices ? choices[field] : current[field];
+      
+      const booking = {
+        apartmentId: current.apartmentId,
+        date: current.date,
+        startTime: current.startTime,
+        endTime: current.endTime,
+        bookedBy: current.bookedBy,
+        userName: current.userName,
+        coachId: choose('coachId'),
+        lessonTypeId: choose('lessonTypeId'),
+        capacity: choose('capacity'),
+        students: choose('students'),
+        status: to
+      };
+      await assertNoBookingConflicts(transaction, getBookingCandidates({ ...booking, id: hold.id, createdAt: new Date() }));
+      
+      touchBookingLocks(transaction, [booking.date]);
+      // Server timestamps aren't allowed inside arrays, so the history uses the client's clock
+      transaction.set(ref, {
+        ...withoutEmptyValues(booking),
+        history: [{ from: 'held', to, by: userId, role: actor.role, at: Timestamp.now() }],
+        createdAt: serverTimestamp()
+      });
+    });
+    
+    console.log('Slot hold confirmed:', hold.id, 'as:', to);
+  } catch (error) {
+    console.error('Error confirming slot hold:', error);
+    throw error;
+  }
+};
+
+// Give up a hold when the resident doesn't book after all. Never throws - a hold that
+// can't be released frees the slot anyway once it runs out.
+export const releaseSlotHold = async (hold: Booking, userId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const ref = doc(db, 'bookings', hold.id);
+      const snap = await transaction.get(ref);
+      if (!snap.exists()) return;
+      
+      const current = toBooking(snap.id, snap.data());
+      if (current.status === 'held' && current.bookedBy === userId) {
+        transaction.delete(ref);
+      }
+    });
+  } catch (error) {
+    console.error('Error releasing slot hold:', error);
+  }
+};
+
+/**
+ * Clear away holds that ran out
+ *
+ * Expired holds no longer block their slot either way, this only keeps them out of the
+ * booking lists. Pages call it when they load. Never throws.
+ */
+export const clearExpiredHolds = async (): Promise<void> => {
+  try {
+    const q = query(collection(db, 'bookings'), where('status', '==', 'held'));
+    const querySnapshot = await getDocs(q);
+    const expiredHolds = querySnapshot.docs
+      .map(doc => toBooking(doc.id, doc.data()))
+      .filter(hold => isHoldExpired(hold));
+    
+    for (const hold of expiredHolds) {
+      // Re-checked in a transaction, so a hold confirmed meanwhile is never deleted
+      await runTransaction(db, async (transaction) => {
+        const ref = doc(db, 'bookings', hold.id);
+        const snap = await transaction.get(ref);
+        if (snap.exists() && isHoldExpired(toBooking(snap.id, snap.data()))) {
+          transaction.delete(ref);
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error clearing expired holds:', error);
+  }
+};
+
+// Waitlist Operations
+
+const toWaitlistEntry = (id: string, data: DocumentData): WaitlistEntry => ({
+  ...data,
+  id,
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date()
+}) as WaitlistEntry;
+
+// Queue for a booked slot, or for any slot in a time window at a pool
+export const joinWaitlist = async (
+  entry: Omit<WaitlistEntry, 'id' | 'createdAt' | 'status' | 'offerBookingId'>
+): Promise<string> => {
+  try {
+    const q = query(
+      collection(db, 'waitlist'),
+      where('userId', '==', entry.userId),
+      where('date', '==', entry.date)
+    );
+    const querySnapshot = await getDocs(q);
+    const isQueued = querySnapshot.docs
+      .map(doc => toWaitlistEntry(doc.id, doc.data()))
+      .some(existing =>
+        existing.status === 'waiting' &&
+        existing.apartmentId === entry.apartmentId &&
+        existing.startTime === entry.startTime &&
+        existing.endTime === entry.endTime
+      );
+    if (isQueued) {
+      throw new Error('You are already on the waitlist for this time.');
+    }
+    
+    const docRef = await addDoc(collection(db, 'waitlist'), {
+      ...withoutEmptyValues(entry),
+      status: 'waiting',
+      createdAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error joining waitlist:', error);
+    throw error;
+  }
+};
+
+// Leaving keeps the entry as withdrawn, so the queue's history stays complete
+export const leaveWaitlist = async (entryId: string): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'waitlist', entryId), { status: 'withdrawn' }, { merge: true });
+  } catch (error) {
+    console.error('Error leaving waitlist:', error);
+    throw error;
+  }
+};
+
+// Every waitlist entry of a day, whatever its status
+export const getWaitlistByDate = async (date: string): Promise<WaitlistEntry[]> => {
+  try {
+    const q = query(collection(db, 'waitlist'), where('date', '==', date));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toWaitlistEntry(doc.id, doc.data()))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  } catch (error) {
+    console.error('Error getting waitlist:', error);
+    throw error;
+  }
+};
+
+// A resident's upcoming entries that are still waiting or have an open offer, soonest first
+export const getWaitlistByUser = async (userId: string): Promise<WaitlistEntry[]> => {
+  try {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const q = query(collection(db, 'waitlist'), where('userId', '==', userId));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(doc => toWaitlistEntry(doc.id, doc.data()))
+      .filter(entry => entry.date >= today && (entry.status === 'waiting' || entry.status === 'offered'))
+      .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`));
+  } catch (error) {
+    console.error('Error getting waitlist for user:', error);
+    throw error;
+  }
+};
+
+/**
+ * Offer a freed slot to the first eligible resident on its waitlist
+ *
+ * The offer is a booking that holds the slot for the resident until it expires - see
+ * getOfferExpiry. Nothing is offered when nobody is waiting, the lesson has started or
+ * the slot was taken meanwhile. Never throws, so a failed offer can't fail the
+ * cancellation that freed the slot.
+ */
+const offerFreedSlot = async (freed: Booking): Promise<void> => {
+  try {
+    // A lesson that has already started can't be offered any more
+    if (!isAfter(getOfferExpiry(freed), new Date())) return;
+    
+    const q = query(
+      collection(db, 'waitlist'),
+      where('apartmentId', '==', freed.apartmentId),
+      where('date', '==', freed.date),
+      where('status', '==', 'waiting')
+    );
+    const querySnapshot = await getDocs(q);
+    const entries = querySnapshot.docs.map(doc => toWaitlistEntry(doc.id, doc.data()));
+    const entry = findNextWaitlistEntry(entries, freed, await fetchBookingsForConflictCheck([freed.date]));
+    if (!entry) return;
+    
+    const entryRef = doc(db, 'waitlist', entry.id);
+    const offerRef = doc(collection(db, 'bookings'));
+    const offer = {
+      apartmentId: freed.apartmentId,
+      date: freed.date,
+      startTime: freed.startTime,
+      endTime: freed.endTime,
+      bookedBy: entry.userId,
+      userName: entry.userName,
+      status: 'offered' as const,
+      waitlistEntryId: entry.id,
+      // A spot freed in a group lesson is offered as a spot in the same group
+      ...(freed.coachId ? { coachId: freed.coachId } : {}),
+      ...(freed.lessonTypeId ? { lessonTypeId: freed.lessonTypeId } : {}),
+      ...(freed.capacity ? { capacity: freed.capacity } : {})
+    };
+    
+    await runTransaction(db, async (transaction) => {
+      const entrySnap = await transaction.get(entryRef);
+      if (!entrySnap.exists() || entrySnap.data().status !== 'waiting') {
+        throw new Error(`Waitlist entry ${entry.id} is no longer waiting`);
+      }
+      
+      await assertNoBookingConflicts(transaction, [{ ...offer, id: offerRef.id }]);
+      touchBookingLocks(transaction, [offer.date]);
+      transaction.set(offerRef, {
+        ...offer,
+        offerExpiresAt: Timestamp.fromDate(getOfferExpiry({ ...offer, id: offerRef.id, createdAt: new Date() })),
+        createdAt: serverTimestamp()
+      });
+      transaction.update(entryRef, { status: 'offered', offerBookingId: offerRef.id });
+    });
+    
+    console.log('Offered freed slot to waitlist entry:', entry.id);
+  } catch (error) {
+    console.error('Error offering freed slot to the waitlist:', error);
+  }
+};
+
+// Take a slot offered from the waitlist - only before the offer expires
+export const acceptWaitlistOffer = async (offer: Booking, userId: string): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const target = await readStoredBooking(transaction, offer);
+      const actor: BookingActor = { id: userId, role: 'user' };
+      if (isOfferExpired(target.current)) {
+        throw new Error('This offer has expired.');
+      }
+      assertTransitionAllowed(target.current, 'confirmed', actor);
+      
+      writeTransition(transaction, target, 'confirmed', actor);
+      if (target.current.waitlistEntryId) {
+        transaction.update(doc(db, 'waitlist', target.current.waitlistEntryId), { status: 'booked' });
+      }
+    });
+  } catch (error) {
+    console.error('Error accepting waitlist offer:', error);
+    throw error;
+  }
+};
+
+// Turn an offer down, or let it lapse - either way the slot passes to the next in line
+const passWaitlistOffer = async (offer: Booking, actor: BookingActor, reason: string): Promise<void> => {
+  await runTransaction(db, async (transaction) => {
+    const target = await readStoredBooking(transaction, offer);
+    assertTransitionAllowed(target.current, 'offer-expired', actor);
+    
+    writeTransition(transaction, target, 'offer-expired', actor, {}, reason);
+    if (target.current.waitlistEntryId) {
+      transaction.update(doc(db, 'waitlist', target.current.waitlistEntryId), { status: 'passed' });
+    }
+  });
+  await offerFreedSlot(offer);
+};
+
+export const declineWaitlistOffer = async (offer: Booking, userId: string): Promise<void> => {
+  try {
+    await passWaitlistOffer(offer, { id: userId, role: 'user' }, 'Turned down');
+  } catch (error) {
+    console.error('Error declining waitlist offer:', error);
+    throw error;
+  }
+};
+
+/**
+ * Pass on every offer that ran out without being confirmed
+ *
+ * There is no server to do this when an offer expires, so pages call it when they load.
+ * Expired offers stop blocking their slot straight away either way.
+ */
+export const expireWaitlistOffers = async (): Promise<void> => {
+  try {
+    const q = query(collection(db, 'bookings'), where('status', '==', 'offered'));
+    const querySnapshot = await getDocs(q);
+    const expiredOffers = querySnapshot.docs
+      .map(doc => toBooking(doc.id, doc.data()))
+      .filter(offer => isOfferExpired(offer));
+    
+    for (const offer of expiredOffers) {
+      try {
+        await passWaitlistOffer(offer, { id: 'system', role: 'system' }, 'Not confirmed in time');
+      } catch (error) {
+        // Another page may have passed the offer on already
+        console.error('Error expiring waitlist offer:', offer.id, error);
+      }
+    }
+  } catch (error) {
+    console.error('Error expiring waitlist offers:', error);
+  }
+};
@@ -13,6 +13,25 @@ export interface User {
   createdAt?: any;
 }
 
+export type SwimmingLevel = 'beginner' | 'improver' | 'intermediate' | 'advanced';
+
+// A child or other swimmer a resident books lessons for, kept under users/{uid}/students
+export interface Student {
+  id: string;
+  userId: string;      // the resident whose account the student belongs to
+  name: string;
+  birthYear?: number;
+  swimmingLevel?: SwimmingLevel;
+  medicalNotes?: string;
+  createdAt?: Date;
+}
+
+// The students a booking is for, with their names as they were when booked
+export interface BookingStudent {
+  id: string;
+  name: string;
+}
+
 // Apartment related types
 export interface Apartment {
   id: string;
@@ -26,6 +45,33 @@ export interface Apartment {
   // Direct properties also referenced in the code
   start: string; // format: "HH:MM"
   end: string;   // format: "HH:MM"
+  // Residents cancelling within this many hours of a lesson get a recorded late cancellation
+  cancellationCutoffHours?: number;
+  // Weekday exceptions to the hours above, e.g. shorter weekend hours or closed on Mondays
+  weeklyHours?: WeeklyHours;
+  // Date ranges with their own hours, replacing the regular week while they apply
+  seasonalHours?: SeasonalHours[];
+  // Residents' bookings stay requests until an admin approves them, instead of being booked instantly
+  requiresApproval?: boolean;
+}
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// Opening hours for one day
+export interface DailyHours {
+  start: string; // format: "HH:MM"
+  end: string;   // format: "HH:MM"
+}
+
+// Per-weekday hours - days that aren't set use the default hours, null means closed all day
+export type WeeklyHours = Partial<Record<Weekday, DailyHours | null>>;
+
+export interface SeasonalHours {
+  name: string;
+  startDate: string; // format: "YYYY-MM-DD"
+  endDate: string;   // format: "YYYY-MM-DD", inclusive
+  hours: DailyHours; // default hours during the season
+  weeklyHours?: WeeklyHours;
 }
 
 // Booking related types
@@ -38,15 +84,260 @@ export interface Booking {
   bookedBy: string;  // userId
   createdAt: Date;
   userName?: string;
-  status?: 'booked' | 'unavailable'; // Added status property for booking state
+  status?: BookingStatus; // Added status property for booking state
+  // Every change of status, oldest first
+  history?: BookingTransition[];
+  // Set when an admin approves or declines a requested booking
+  approvedAt?: Date;
+  declinedAt?: Date;
+  declineReason?: string;
+  // Set on waitlist offers, which hold the slot for the resident until they expire
+  offerExpiresAt?: Date;
+  waitlistEntryId?: string;
+  // Set on holds, which keep the slot free of other bookings while the resident confirms
+  holdExpiresAt?: Date;
+  // Set on cancelled bookings, which are kept for the record
+  cancelledAt?: Date;
+  cancelledBy?: string; // userId
+  lateCancellation?: boolean;
+  // Set on the first booking of a recurring series (the series "master")
+  recurrence?: RecurrenceRule;
+  excludedDates?: string[]; // occurrences cancelled or edited separately, format: "YYYY-MM-DD"
+  // Set on generated occurrences and on occurrences edited separately from their series
+  seriesId?: string;        // id of the series master
+  occurrenceDate?: string;  // date the occurrence originally fell on, format: "YYYY-MM-DD"
+  // Instructor teaching the lesson - lessons without one belong to the default coach,
+  // blocks without one apply to every coach
+  coachId?: string;
+  // Semi-private and group lessons share their slot with up to capacity residents, each
+  // with a booking of their own. Lessons without a type are private.
+  lessonTypeId?: string;
+  capacity?: number;
+  // Students taking the lesson - bookings without any are for the resident themselves.
+  // Each student takes a spot of a shared lesson.
+  students?: BookingStudent[];
+}
+
+// A kind of lesson residents can book, from the admin's catalogue
+export interface LessonType {
+  id: string;
+  name: string;
+  duration?: number; // in minutes - lessons without one last a slot of their pool
+  capacity: number;  // residents sharing the slot, 1 for private lessons
+  color: string;     // hex colour, e.g. "#0d9488"
+  createdAt?: Date;
+}
+
+// Lifecycle of a booking: requested -> confirmed -> completed or no-show, or cancelled
+// along the way. Waitlist offers start as 'offered' and are confirmed or expire.
+// 'held' marks a slot being booked - the hold becomes the booking, or is released.
+// 'unavailable' marks admin blocks, which have no lifecycle.
+export type BookingStatus =
+  | 'held'
+  | 'requested'
+  | 'offered'
+  | 'offer-expired'
+  | 'confirmed'
+  | 'completed'
+  | 'no-show'
+  | 'cancelled-by-resident'
+  | 'cancelled-by-coach'
+  | 'declined'
+  | 'unavailable';
+
+// Who changes a booking's status - 'system' for changes nobody made, like an offer running out
+export type TransitionRole = UserRole | 'system';
+
+export interface BookingActor {
+  id: string; // userId, or 'system'
+  role: TransitionRole;
+}
+
+// One change of a booking's status
+export interface BookingTransition {
+  from: BookingStatus;
+  to: BookingStatus;
+  by: string;      // userId, or 'system'
+  role: TransitionRole;
+  at: Date;
+  reason?: string;
+}
+
+// A resident queueing for a booked slot, or for any time in a window at a pool
+export interface WaitlistEntry {
+  id: string;
+  apartmentId: string;
+  date: string;       // format: "YYYY-MM-DD"
+  startTime: string;  // format: "HH:MM", the slot or the start of the window
+  endTime: string;    // format: "HH:MM", the slot or the end of the window
+  bookingId?: string; // the booked slot queued for, not set for windows
+  userId: string;
+  userName: string;
+  status: 'waiting' | 'offered' | 'booked' | 'passed' | 'withdrawn';
+  offerBookingId?: string; // the offer made to the resident, once there is one
+  createdAt: Date;
+}
+
+// Recurring lessons repeat on the weekday of their first booking
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'fortnightly';
+  until?: string;  // last possible occurrence, format: "YYYY-MM-DD"
+  count?: number;  // total number of occurrences
+}
+
+// Which occurrences an edit or cancellation of a recurring lesson applies to
+export type RecurrenceScope = 'this' | 'following';
+
+// Travel time related types
+export interface TravelTime {
+  id: string;                     // both apartment ids, sorted and joined with "_"
+  apartmentIds: [string, string];
+  minutes: number;
+}
+
+// Travel minutes between apartment pairs, keyed by TravelTime id
+export type TravelTimeMatrix = Record<string, number>;
+
+// The time range a new or edited booking would occupy
+export interface BookingCandidate {
+  id?: string;       // set when re-checking an existing booking
+  apartmentId: string;
+  date: string;      // format: "YYYY-MM-DD"
+  startTime: string; // format: "HH:MM"
+  endTime: string;   // format: "HH:MM"
+  isBlock?: boolean; // admin blocks aren't lessons, so the coach's limits don't apply to them
+  coachId?: string;
+  lessonTypeId?: string;
+  capacity?: number; // set to join or start a group lesson
+  students?: BookingStudent[]; // each takes a spot of a group lesson
+}
+
+// An existing booking that prevents a candidate from being booked
+export interface BookingConflict {
+  booking: Booking;
+  reason: 'overlap' | 'travel-buffer' | 'full';
+  travelMinutes?: number; // travel time between the two apartments for 'travel-buffer' conflicts
+}
+
+// What stops a booking from being moved to another time or pool - nothing set means it fits
+export interface BookingMoveCheck {
+  candidate: BookingCandidate; // the booking at its new time and pool
+  outsideHours?: boolean;      // the pool isn't open for the whole lesson
+  closure?: Closure;
+  conflict?: BookingConflict;
+  coachLimit?: CoachLimitReason;
+}
+
+// A date range in which a pool is closed, e.g. for maintenance or a public holiday
+export interface Closure {
+  id: string;
+  apartmentId?: string; // not set when every apartment is closed
+  startDate: string;    // format: "YYYY-MM-DD"
+  endDate: string;      // format: "YYYY-MM-DD", inclusive
+  reason: string;
+  createdAt: Date;
+}
+
+// The coach's working hours and lesson limits
+export interface CoachProfile {
+  workingHours: Partial<Record<Weekday, DailyHours[]>>; // working windows, days without any are days off
+  breaks: DailyHours[];          // fixed breaks on every working day
+  maxLessonsPerDay: number;      // 0 for no limit
+  maxConsecutiveLessons: number; // 0 for no limit
+  breakMinutes: number;          // shortest gap between lessons that counts as a break
+}
+
+// Instructor related types
+export interface Instructor {
+  id: string;
+  name: string;
+  profile?: CoachProfile; // no working hours or limits until one is saved
+  createdAt: Date;
 }
 
+// Why the coach's profile rules out a time
+export type CoachLimitReason = 'off-hours' | 'break' | 'daily-limit' | 'consecutive-limit';
+
 // Time slot related types
 export interface TimeSlot {
   apartmentId: string;
   date: string;      // format: "YYYY-MM-DD"
   startTime: string; // format: "HH:MM"
   endTime: string;   // format: "HH:MM"
-  status: 'available' | 'booked' | 'unavailable' | 'travel-restricted';
+  status: 'available' | 'booked' | 'unavailable' | 'travel-restricted' | 'closed' | 'coach-unavailable';
   booking?: Booking;
+  closure?: Closure; // set on 'closed' slots
+  coachLimit?: CoachLimitReason; // set on 'coach-unavailable' slots
+  conflict?: BookingConflict;    // set on 'unavailable' and 'travel-restricted' slots without a booking
+  coachIds?: string[];           // coaches free for an 'available' slot, when there are instructors
+  spotsLeft?: number;            // set on 'booked' slots of a group lesson
+}
+
+// One step of a coach's day as a route
+export type ItinerarySegment =
+  | { type: 'lesson'; booking: Booking }
+  | {
+      type: 'travel';
+      fromApartmentId: string;
+      toApartmentId: string;
+      startTime: string;        // end of the previous lesson, format: "HH:MM"
+      endTime: string;          // arrival with the configured travel time, format: "HH:MM"
+      minutes: number;          // configured travel time
+      availableMinutes: number; // time between the two lessons
+    }
+  | { type: 'idle'; apartmentId: string; startTime: string; endTime: string; minutes: number };
+
+// Totals for a coach's day
+export interface ItinerarySummary {
+  lessons: number;
+  travelMinutes: number;
+  idleMinutes: number;
+  tightGaps: number; // travel segments without enough time to get there
+}
+
+// A lesson that can go anywhere inside its window, for the route optimiser
+export interface FlexibleRequest {
+  id: string;
+  apartmentId: string;
+  earliestStart: string; // format: "HH:MM"
+  latestEnd: string;     // format: "HH:MM"
+  duration: number;      // in minutes
+  userName: string;      // who the lesson is for
+}
+
+// Where a flexible request ends up in a proposed route
+export interface RoutePlacement {
+  request: FlexibleRequest;
+  startTime: string; // format: "HH:MM"
+  endTime: string;   // format: "HH:MM"
+}
+
+// A proposed order for the day's flexible requests
+export interface RouteProposal {
+  placements: RoutePlacement[]; // in time order
+  unplaced: FlexibleRequest[];  // requests that fit nowhere in their window
+  travelMinutes: number;        // total travel for the day, fixed bookings included
+}
+
+// Free and total slots of a pool (or several pools) on a day
+export interface DayAvailability {
+  free: number;
+  total: number; // 0 when closed all day
+}
+
+// What a resident is looking for when searching for the next free slot
+export interface SlotSearchPreferences {
+  apartmentIds: string[]; // pools to search, empty for any pool
+  weekdays: Weekday[];    // days to search, empty for any day
+  earliestStart: string;  // format: "HH:MM"
+  latestEnd: string;      // format: "HH:MM"
+  lessonTypeId: string;   // lesson type the results are booked as
+  duration: number;       // in minutes, 0 for each pool's slot length
+}
+
+// One cell of a schedule grid column - consecutive slots of the same booking are merged
+export interface GridCell {
+  slots: TimeSlot[];
+  rowSpan: number; // number of grid rows the cell covers
+  stackedSlots: TimeSlot[]; // other bookings starting while the cell is shown, e.g. another coach's lessons
 }
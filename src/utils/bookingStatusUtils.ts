@@ -0,0 +1,136 @@
+import { isAfter, parse } from 'date-fns';
+import type { Booking, BookingStatus, TransitionRole } from '../types';
+
+// The moves each status allows, and who may make them. Admins act as the coach.
+const TRANSITIONS: Record<BookingStatus, Partial<Record<BookingStatus, TransitionRole[]>>> = {
+  held: {
+    requested: ['user'],
+    confirmed: ['user']
+  },
+  requested: {
+    confirmed: ['admin'],
+    declined: ['admin'],
+    'cancelled-by-resident': ['user']
+  },
+  offered: {
+    confirmed: ['user'],
+    'offer-expired': ['user', 'system']
+  },
+  'offer-expired': {},
+  confirmed: {
+    completed: ['admin'],
+    'no-show': ['admin'],
+    'cancelled-by-resident': ['user'],
+    'cancelled-by-coach': ['admin']
+  },
+  completed: {},
+  'no-show': {},
+  'cancelled-by-resident': {},
+  'cancelled-by-coach': {},
+  declined: {},
+  unavailable: {}
+};
+
+// Statuses that hold the booking's time. Lessons already taught or missed keep theirs,
+// since the coach was there and they still count towards the day's limits. Offers and
+// holds keep theirs until they expire.
+const BLOCKING_STATUSES: BookingStatus[] = ['held', 'requested', 'offered', 'confirmed', 'completed', 'no-show', 'unavailable'];
+
+// How long a slot stays held while the resident confirms the booking
+export const SLOT_HOLD_MINUTES = 5;
+
+export const STATUS_LABELS: Record<BookingStatus, string> = {
+  held: 'Being booked',
+  requested: 'Requested',
+  offered: 'Offered',
+  'offer-expired': 'Offer expired',
+  confirmed: 'Confirmed',
+  completed: 'Completed',
+  'no-show': 'No-show',
+  'cancelled-by-resident': 'Cancelled by resident',
+  'cancelled-by-coach': 'Cancelled by coach',
+  declined: 'Declined',
+  unavailable: 'Unavailable'
+};
+
+// Badge colours for the admin table and the resident's booking list
+export const STATUS_BADGE_CLASSES: Record<BookingStatus, string> = {
+  held: 'bg-indigo-100 text-indigo-800',
+  requested: 'bg-orange-100 text-orange-800',
+  offered: 'bg-sky-100 text-sky-800',
+  'offer-expired': 'bg-gray-100 text-gray-700',
+  confirmed: 'bg-red-100 text-red-800',
+  completed: 'bg-green-100 text-green-800',
+  'no-show': 'bg-gray-200 text-gray-800',
+  'cancelled-by-resident': 'bg-gray-100 text-gray-700',
+  'cancelled-by-coach': 'bg-gray-100 text-gray-700',
+  declined: 'bg-gray-100 text-gray-700',
+  unavailable: 'bg-yellow-100 text-yellow-800'
+};
+
+// Button labels for moving a booking to each status
+export const TRANSITION_ACTION_LABELS: Record<BookingStatus, string> = {
+  held: 'Hold',
+  requested: 'Request',
+  offered: 'Offer',
+  'offer-expired': 'Decline Offer',
+  confirmed: 'Approve',
+  completed: 'Completed',
+  'no-show': 'No-show',
+  'cancelled-by-resident': 'Cancel',
+  'cancelled-by-coach': 'Cancel Lesson',
+  declined: 'Decline',
+  unavailable: 'Block'
+};
+
+// Bookings saved before the lifecycle existed were 'booked', or 'cancelled' by their resident
+export const normalizeBookingStatus = (status: string | undefined): BookingStatus => {
+  if (!status || status === 'booked') return 'confirmed';
+  if (status === 'cancelled') return 'cancelled-by-resident';
+  return status as BookingStatus;
+};
+
+export const isBlockingStatus = (status: BookingStatus | undefined): boolean => {
+  return BLOCKING_STATUSES.includes(status || 'confirmed');
+};
+
+export const isOfferExpired = (booking: Booking, now: Date = new Date()): boolean => {
+  return booking.status === 'offered' && (!booking.offerExpiresAt || !isAfter(booking.offerExpiresAt, now));
+};
+
+export const isHoldExpired = (booking: Booking, now: Date = new Date()): boolean => {
+  return booking.status === 'held' && (!booking.holdExpiresAt || !isAfter(booking.holdExpiresAt, now));
+};
+
+// Cancelled by either side
+export const isCancelledStatus = (status: BookingStatus | undefined): boolean => {
+  return status === 'cancelled-by-resident' || status === 'cancelled-by-coach';
+};
+
+/**
+ * The statuses a booking can move to next, for a role
+ *
+ * Cancelling is only possible before the lesson starts, and marking a lesson completed
+ * or a no-show only once it has started. Offers can only be confirmed before they
+ * expire, and only expire on their own once their time is up.
+ */
+export const getAvailableTransitions = (
+  booking: Booking,
+  role: TransitionRole,
+  now: Date = new Date()
+): BookingStatus[] => {
+  const lessonStart = parse(`${booking.date} ${booking.startTime}`, 'yyyy-MM-dd HH:mm', new Date());
+  const hasStarted = !isAfter(lessonStart, now);
+  const offerExpired = isOfferExpired(booking, now);
+
+  return (Object.entries(TRANSITIONS[booking.status || 'confirmed']) as [BookingStatus, TransitionRole[]][])
+    .filter(([, allowedRoles]) => allowedRoles.includes(role))
+    .map(([status]) => status)
+    .filter(status => {
+      if (status === 'completed' || status === 'no-show') return hasStarted;
+      if (isCancelledStatus(status)) return !hasStarted;
+      if (booking.status === 'offered' && status === 'confirmed') return !offerExpired;
+      if (status === 'offer-expired' && role === 'system') return offerExpired;
+      return true;
+    });
+};
@@ -0,0 +1,43 @@
+import { format, parse } from 'date-fns';
+import type { Apartment, Booking, Closure } from '../types';
+import { isActiveBooking } from './timeSlotUtils';
+
+// A closure without an apartment closes every pool
+export const closureAppliesTo = (closure: Closure, apartmentId: string): boolean => {
+  return !closure.apartmentId || closure.apartmentId === apartmentId;
+};
+
+// The closure shutting an apartment on a date, if there is one
+export const findClosure = (
+  closures: Closure[],
+  apartmentId: string,
+  date: string
+): Closure | undefined => {
+  return closures.find(closure =>
+    closureAppliesTo(closure, apartmentId) &&
+    closure.startDate <= date &&
+    date <= closure.endDate
+  );
+};
+
+// Lessons inside a closure - admin blocks and cancelled lessons don't need follow-up
+export const getBookingsInClosure = (closure: Closure, bookings: Booking[]): Booking[] => {
+  return bookings.filter(booking =>
+    isActiveBooking(booking) &&
+    booking.status !== 'unavailable' &&
+    !!findClosure([closure], booking.apartmentId, booking.date)
+  );
+};
+
+// Human readable summary of a closure, e.g. "All pools closed Dec 24 - Dec 26 (Christmas)"
+export const describeClosure = (closure: Closure, apartments: Apartment[]): string => {
+  const apartmentName = closure.apartmentId
+    ? apartments.find(apt => apt.id === closure.apartmentId)?.name || 'The pool'
+    : 'All pools';
+  const formatDate = (date: string) => format(parse(date, 'yyyy-MM-dd', new Date()), 'MMM d, yyyy');
+  const dateRange = closure.startDate === closure.endDate
+    ? formatDate(closure.startDate)
+    : `${formatDate(closure.startDate)} - ${formatDate(closure.endDate)}`;
+
+  return `${apartmentName} closed ${dateRange}${closure.reason ? ` (${closure.reason})` : ''}`;
+};
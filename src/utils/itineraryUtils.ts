@@ -0,0 +1,74 @@
+import type { Booking, ItinerarySegment, ItinerarySummary, TravelTimeMatrix } from '../types';
+import { getCoachItinerary, getTravelTime, isLesson, timeToMinutes, minutesToTime } from './timeSlotUtils';
+
+// Waits at least this long are flagged as idle time worth filling
+export const IDLE_GAP_MINUTES = 60;
+
+/**
+ * A coach's lessons for a day as a route
+ *
+ * Lessons are listed in order. Moving to another pool adds a travel segment starting
+ * at the end of the previous lesson and lasting the configured travel time, and
+ * whatever time is left before the next lesson is an idle segment at the next pool.
+ */
+export const buildItinerary = (
+  bookings: Booking[],
+  date: string,
+  travelTimes: TravelTimeMatrix
+): ItinerarySegment[] => {
+  const lessons = getCoachItinerary(bookings, date).filter(isLesson);
+  const segments: ItinerarySegment[] = [];
+
+  lessons.forEach((lesson, index) => {
+    const previous = lessons[index - 1];
+    if (previous) {
+      const gapStart = timeToMinutes(previous.endTime);
+      const gapMinutes = timeToMinutes(lesson.startTime) - gapStart;
+      const travelMinutes = getTravelTime(travelTimes, previous.apartmentId, lesson.apartmentId);
+
+      if (previous.apartmentId !== lesson.apartmentId) {
+        segments.push({
+          type: 'travel',
+          fromApartmentId: previous.apartmentId,
+          toApartmentId: lesson.apartmentId,
+          startTime: previous.endTime,
+          endTime: minutesToTime(gapStart + travelMinutes),
+          minutes: travelMinutes,
+          availableMinutes: gapMinutes
+        });
+      }
+
+      const idleMinutes = gapMinutes - travelMinutes;
+      if (idleMinutes > 0) {
+        segments.push({
+          type: 'idle',
+          apartmentId: lesson.apartmentId,
+          startTime: minutesToTime(gapStart + travelMinutes),
+          endTime: lesson.startTime,
+          minutes: idleMinutes
+        });
+      }
+    }
+
+    segments.push({ type: 'lesson', booking: lesson });
+  });
+
+  return segments;
+};
+
+// Lesson count, travel and idle time, and the gaps too short to travel
+export const summarizeItinerary = (segments: ItinerarySegment[]): ItinerarySummary => {
+  return segments.reduce<ItinerarySummary>((summary, segment) => {
+    if (segment.type === 'lesson') {
+      return { ...summary, lessons: summary.lessons + 1 };
+    }
+    if (segment.type === 'travel') {
+      return {
+        ...summary,
+        travelMinutes: summary.travelMinutes + segment.minutes,
+        tightGaps: summary.tightGaps + (segment.availableMinutes < segment.minutes ? 1 : 0)
+      };
+    }
+    return { ...summary, idleMinutes: summary.idleMinutes + segment.minutes };
+  }, { lessons: 0, travelMinutes: 0, idleMinutes: 0, tightGaps: 0 });
+};
@@ -0,0 +1,50 @@
+import type { Booking, BookingCandidate, LessonType } from '../types';
+
+// The lessons offered until the admin sets up a catalogue of their own
+export const DEFAULT_LESSON_TYPES: LessonType[] = [
+  { id: 'private', name: 'Private', capacity: 1, color: '#2563eb' },
+  { id: 'semi-private', name: 'Semi-private', capacity: 3, color: '#7c3aed' },
+  { id: 'group', name: 'Group', capacity: 6, color: '#0d9488' }
+];
+
+// How many residents share the booking's slot - lessons without a capacity are private
+export const getSlotCapacity = (booking: Booking | BookingCandidate): number => {
+  return booking.capacity && booking.capacity > 1 ? booking.capacity : 1;
+};
+
+export const isGroupBooking = (booking: Booking | BookingCandidate): boolean => {
+  return getSlotCapacity(booking) > 1;
+};
+
+// Group bookings share a slot when they're the same type of lesson with the same coach,
+// at the same pool and time
+export const isSameGroupSlot = (a: Booking | BookingCandidate, b: Booking | BookingCandidate): boolean => {
+  return isGroupBooking(a) &&
+    isGroupBooking(b) &&
+    a.lessonTypeId === b.lessonTypeId &&
+    (a.coachId || '') === (b.coachId || '') &&
+    a.apartmentId === b.apartmentId &&
+    a.date === b.date &&
+    a.startTime === b.startTime &&
+    a.endTime === b.endTime;
+};
+
+// "Beginner (45 min, up to 4)", leaving out the pool's slot length and private capacity
+export const describeLessonType = (lessonType: LessonType): string => {
+  const details = [
+    lessonType.duration ? `${lessonType.duration} min` : '',
+    lessonType.capacity > 1 ? `up to ${lessonType.capacity}` : ''
+  ].filter(Boolean);
+  return details.length > 0 ? `${lessonType.name} (${details.join(', ')})` : lessonType.name;
+};
+
+export const getLessonType = (booking: Booking | BookingCandidate, lessonTypes: LessonType[]): LessonType | undefined => {
+  return lessonTypes.find(lessonType => lessonType.id === booking.lessonTypeId);
+};
+
+// Name of a booking's lesson type, or null for private lessons booked without one. Types
+// removed from the catalogue since show their id.
+export const getLessonTypeName = (booking: Booking | BookingCandidate, lessonTypes: LessonType[]): string | null => {
+  if (!booking.lessonTypeId) return null;
+  return getLessonType(booking, lessonTypes)?.name || booking.lessonTypeId;
+};
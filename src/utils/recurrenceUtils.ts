@@ -0,0 +1,111 @@
+import { format, parse, addDays } from 'date-fns';
+import type { Booking, RecurrenceRule } from '../types';
+
+// Hard limit on generated occurrences so a bad rule can't expand forever (two years of weekly lessons)
+export const MAX_OCCURRENCES = 104;
+
+const parseDate = (date: string): Date => parse(date, 'yyyy-MM-dd', new Date());
+const formatDate = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Generated occurrences get a stable id derived from their series and date
+export const getOccurrenceId = (seriesId: string, date: string): string => `${seriesId}_${date}`;
+
+// A generated occurrence of a series, as opposed to a stored booking document
+export const isGeneratedOccurrence = (booking: Booking): boolean => {
+  return !!booking.recurrence && !!booking.seriesId;
+};
+
+/**
+ * List the dates a recurring lesson falls on, starting from its first booking
+ *
+ * The rule ends at `until` or after `count` occurrences, whichever comes first.
+ * Excluded dates still count towards `count`, so cancelling one lesson doesn't
+ * extend the series by a week.
+ */
+export const getOccurrenceDates = (startDate: string, rule: RecurrenceRule): string[] => {
+  const step = rule.frequency === 'fortnightly' ? 14 : 7;
+  const maxCount = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const dates: string[] = [];
+
+  let current = parseDate(startDate);
+  while (dates.length < maxCount) {
+    const dateString = formatDate(current);
+    if (rule.until && dateString > rule.until) break;
+    dates.push(dateString);
+    current = addDays(current, step);
+  }
+
+  return dates;
+};
+
+// Dates a series master actually occupies, skipping excluded occurrences
+export const getActiveOccurrenceDates = (master: Booking): string[] => {
+  if (!master.recurrence) return [master.date];
+  const excluded = master.excludedDates || [];
+  return getOccurrenceDates(master.date, master.recurrence).filter(date => !excluded.includes(date));
+};
+
+// Build the occurrence of a series master on a specific date
+export const createOccurrence = (master: Booking, date: string): Booking => ({
+  ...master,
+  id: getOccurrenceId(master.id, date),
+  date,
+  seriesId: master.id,
+  occurrenceDate: date
+});
+
+// Expand series masters into the occurrences that fall on the given dates
+export const expandRecurringBookings = (masters: Booking[], dates: string[]): Booking[] => {
+  const occurrences: Booking[] = [];
+
+  masters.forEach(master => {
+    if (!master.recurrence) return;
+    const activeDates = getActiveOccurrenceDates(master);
+    dates
+      .filter(date => activeDates.includes(date))
+      .forEach(date => occurrences.push(createOccurrence(master, date)));
+  });
+
+  return occurrences;
+};
+
+/**
+ * Rule for the part of a series before the given occurrence
+ *
+ * Used when a series is split at an occurrence for "this and all following" edits
+ * and cancellations. Returns null when nothing is left before the split.
+ */
+export const truncateRecurrence = (master: Booking, splitDate: string): RecurrenceRule | null => {
+  if (!master.recurrence) return null;
+  const remainingDates = getOccurrenceDates(master.date, master.recurrence).filter(date => date < splitDate);
+  if (remainingDates.length === 0) return null;
+
+  return {
+    frequency: master.recurrence.frequency,
+    until: remainingDates[remainingDates.length - 1]
+  };
+};
+
+// Rule for a new series continuing an existing one from the split date onwards
+export const continueRecurrence = (master: Booking, splitDate: string): RecurrenceRule | null => {
+  if (!master.recurrence) return null;
+  const allDates = getOccurrenceDates(master.date, master.recurrence);
+  const followingDates = allDates.filter(date => date >= splitDate);
+  if (followingDates.length === 0) return null;
+
+  // Firestore rejects undefined fields, so only copy the limits that are set
+  return {
+    frequency: master.recurrence.frequency,
+    ...(master.recurrence.until ? { until: master.recurrence.until } : {}),
+    // Keep the total number of lessons unchanged when the series was limited by count
+    ...(master.recurrence.count ? { count: followingDates.length } : {})
+  };
+};
+
+// Human readable summary of a recurrence rule, e.g. "Weekly until Mar 3" or "Fortnightly, 6 lessons"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const frequency = rule.frequency === 'fortnightly' ? 'Fortnightly' : 'Weekly';
+  if (rule.count) return `${frequency}, ${rule.count} lessons`;
+  if (rule.until) return `${frequency} until ${format(parseDate(rule.until), 'MMM d, yyyy')}`;
+  return frequency;
+};
@@ -0,0 +1,143 @@
+import type {
+  Apartment,
+  Booking,
+  BookingCandidate,
+  Closure,
+  CoachProfile,
+  FlexibleRequest,
+  RoutePlacement,
+  RouteProposal,
+  TravelTimeMatrix
+} from '../types';
+import {
+  getOperatingHoursForDate,
+  findBookingConflict,
+  findCoachLimit,
+  timeToMinutes,
+  minutesToTime
+} from './timeSlotUtils';
+import { findClosure } from './closureUtils';
+import { buildItinerary, summarizeItinerary } from './itineraryUtils';
+
+// Every order of the requests is tried, so keep the number of requests small
+export const MAX_FLEXIBLE_REQUESTS = 7;
+
+// Flexible lessons start on the quarter hour
+const START_STEP_MINUTES = 15;
+
+// Everything the optimiser needs to know about the coach's day
+export interface RouteContext {
+  date: string;               // format: "YYYY-MM-DD"
+  fixedBookings: Booking[];   // the coach's bookings for the day, blocks included
+  apartments: Apartment[];
+  closures: Closure[];
+  travelTimes: TravelTimeMatrix;
+  coachProfile: CoachProfile | null;
+}
+
+// Stand-in booking for a placed request, so later requests are checked against it
+const toProposedBooking = (placement: RoutePlacement, date: string): Booking => ({
+  id: `proposal_${placement.request.id}`,
+  apartmentId: placement.request.apartmentId,
+  date,
+  startTime: placement.startTime,
+  endTime: placement.endTime,
+  bookedBy: 'admin',
+  userName: placement.request.userName,
+  status: 'confirmed',
+  createdAt: new Date()
+});
+
+// Earliest start inside the request's window and the pool's hours, no earlier than
+// notBefore, that fits the coach's itinerary, travel buffers and limits
+const placeRequest = (
+  request: FlexibleRequest,
+  notBefore: number,
+  bookings: Booking[],
+  context: RouteContext
+): RoutePlacement | null => {
+  const apartment = context.apartments.find(apt => apt.id === request.apartmentId);
+  const hours = apartment ? getOperatingHoursForDate(apartment, context.date) : null;
+  if (!hours || findClosure(context.closures, request.apartmentId, context.date)) {
+    return null;
+  }
+
+  const earliest = Math.max(timeToMinutes(request.earliestStart), timeToMinutes(hours.start), notBefore);
+  const latest = Math.min(timeToMinutes(request.latestEnd), timeToMinutes(hours.end));
+  const firstStart = Math.ceil(earliest / START_STEP_MINUTES) * START_STEP_MINUTES;
+
+  for (let start = firstStart; start + request.duration <= latest; start += START_STEP_MINUTES) {
+    const candidate: BookingCandidate = {
+      apartmentId: request.apartmentId,
+      date: context.date,
+      startTime: minutesToTime(start),
+      endTime: minutesToTime(start + request.duration)
+    };
+    if (!findBookingConflict(candidate, bookings, context.travelTimes) &&
+        !findCoachLimit(candidate, bookings, context.coachProfile)) {
+      return { request, startTime: candidate.startTime, endTime: candidate.endTime };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Place the requests one after another in the given order
+ *
+ * Each request goes at the earliest time that fits, after the previous request.
+ * Requests that don't fit anywhere are left unplaced and the rest carry on.
+ */
+export const planRoute = (requests: FlexibleRequest[], context: RouteContext): RouteProposal => {
+  const bookings = [...context.fixedBookings];
+  const placements: RoutePlacement[] = [];
+  const unplaced: FlexibleRequest[] = [];
+  let notBefore = 0;
+
+  requests.forEach(request => {
+    const placement = placeRequest(request, notBefore, bookings, context);
+    if (!placement) {
+      unplaced.push(request);
+      return;
+    }
+    placements.push(placement);
+    bookings.push(toProposedBooking(placement, context.date));
+    notBefore = timeToMinutes(placement.endTime);
+  });
+
+  return {
+    placements,
+    unplaced,
+    travelMinutes: summarizeItinerary(buildItinerary(bookings, context.date, context.travelTimes)).travelMinutes
+  };
+};
+
+// Every order of a list - n! of them
+const getPermutations = <T>(items: T[]): T[][] => {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    getPermutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+};
+
+/**
+ * The order of the flexible requests that fits the most of them with the least travel
+ *
+ * Tries every order with planRoute, so the fixed bookings, the requests' windows, the
+ * pools' hours and closures, the travel buffers and the coach's limits are all respected.
+ * Only the first MAX_FLEXIBLE_REQUESTS requests are considered.
+ */
+export const optimizeRoute = (requests: FlexibleRequest[], context: RouteContext): RouteProposal => {
+  let best: RouteProposal | null = null;
+
+  for (const order of getPermutations(requests.slice(0, MAX_FLEXIBLE_REQUESTS))) {
+    const proposal = planRoute(order, context);
+    if (!best ||
+        proposal.placements.length > best.placements.length ||
+        (proposal.placements.length === best.placements.length && proposal.travelMinutes < best.travelMinutes)) {
+      best = proposal;
+    }
+  }
+
+  return best || planRoute([], context);
+};
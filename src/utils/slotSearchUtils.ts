@@ -0,0 +1,131 @@
+import { format, parse, getDay } from 'date-fns';
+import type {
+  Apartment,
+  Booking,
+  BookingCandidate,
+  Closure,
+  Instructor,
+  SlotSearchPreferences,
+  TimeSlot,
+  TravelTimeMatrix
+} from '../types';
+import {
+  SLOT_START_STEP,
+  WEEKDAYS,
+  getOperatingHoursForDate,
+  getCoachBookings,
+  getDefaultCoachId,
+  findBookingConflict,
+  findCoachLimit,
+  timeToMinutes,
+  minutesToTime
+} from './timeSlotUtils';
+import { findClosure } from './closureUtils';
+
+// Whether a day matches the weekdays the resident asked for
+const matchesWeekday = (date: string, preferences: SlotSearchPreferences): boolean => {
+  if (preferences.weekdays.length === 0) return true;
+  const weekday = WEEKDAYS[getDay(parse(date, 'yyyy-MM-dd', new Date()))];
+  return preferences.weekdays.includes(weekday);
+};
+
+/**
+ * Free slots of an apartment on a day that match the search preferences
+ *
+ * Slots start where the grid's slots start - every SLOT_START_STEP minutes from
+ * opening time - and last as long as the resident's lesson type, or the pool's slot
+ * length for types without a length of their own. A slot has to fit the
+ * pool's hours, stay clear of closures and fit into a coach's itinerary, travel
+ * buffers, working hours and lesson limits, the same as when it's booked.
+ */
+const findSlotsForApartment = (
+  apartment: Apartment,
+  date: string,
+  bookings: Booking[],
+  closures: Closure[],
+  travelTimes: TravelTimeMatrix,
+  instructors: Instructor[],
+  preferences: SlotSearchPreferences,
+  now: Date
+): TimeSlot[] => {
+  const hours = getOperatingHoursForDate(apartment, date);
+  if (!hours || findClosure(closures, apartment.id, date)) {
+    return [];
+  }
+
+  const duration = preferences.duration || apartment.defaultSlotDuration || 60;
+  const earliest = Math.max(timeToMinutes(hours.start), timeToMinutes(preferences.earliestStart));
+  const latest = Math.min(timeToMinutes(hours.end), timeToMinutes(preferences.latestEnd));
+  // Lessons later today are still bookable, ones that already started aren't
+  const notBefore = date === format(now, 'yyyy-MM-dd') ? now.getHours() * 60 + now.getMinutes() : 0;
+  const defaultCoachId = getDefaultCoachId(instructors);
+  const slots: TimeSlot[] = [];
+
+  for (let start = timeToMinutes(hours.start); start + duration <= latest; start += SLOT_START_STEP) {
+    if (start < earliest || start < notBefore) continue;
+
+    const candidate: BookingCandidate = {
+      apartmentId: apartment.id,
+      date,
+      startTime: minutesToTime(start),
+      endTime: minutesToTime(start + duration)
+    };
+
+    if (instructors.length === 0) {
+      if (!findBookingConflict(candidate, bookings, travelTimes)) {
+        slots.push({ ...candidate, status: 'available' });
+      }
+      continue;
+    }
+
+    const coachIds = instructors
+      .filter(instructor => {
+        const coachBookings = getCoachBookings(bookings, instructor.id, defaultCoachId);
+        return !findBookingConflict(candidate, coachBookings, travelTimes) &&
+          !findCoachLimit(candidate, coachBookings, instructor.profile);
+      })
+      .map(instructor => instructor.id);
+    if (coachIds.length > 0) {
+      slots.push({ ...candidate, status: 'available', coachIds });
+    }
+  }
+
+  return slots;
+};
+
+/**
+ * The first free slots matching the resident's preferences, soonest first
+ *
+ * Bookings, closures and dates have to cover the same days. Stops once `limit`
+ * slots are found.
+ */
+export const findAvailableSlots = (
+  apartments: Apartment[],
+  dates: string[],
+  bookings: Booking[],
+  closures: Closure[],
+  travelTimes: TravelTimeMatrix,
+  instructors: Instructor[],
+  preferences: SlotSearchPreferences,
+  limit: number,
+  now: Date = new Date()
+): TimeSlot[] => {
+  const searchedApartments = preferences.apartmentIds.length > 0
+    ? apartments.filter(apartment => preferences.apartmentIds.includes(apartment.id))
+    : apartments;
+  const results: TimeSlot[] = [];
+
+  for (const date of [...dates].sort()) {
+    if (results.length >= limit) break;
+    if (!matchesWeekday(date, preferences)) continue;
+
+    const daySlots = searchedApartments
+      .flatMap(apartment =>
+        findSlotsForApartment(apartment, date, bookings, closures, travelTimes, instructors, preferences, now)
+      )
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+    results.push(...daySlots.slice(0, limit - results.length));
+  }
+
+  return results;
+};
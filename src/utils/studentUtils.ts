@@ -0,0 +1,40 @@
+import type { Booking, BookingCandidate, Student, SwimmingLevel } from '../types';
+
+export const SWIMMING_LEVELS: SwimmingLevel[] = ['beginner', 'improver', 'intermediate', 'advanced'];
+
+export const SWIMMING_LEVEL_LABELS: Record<SwimmingLevel, string> = {
+  beginner: 'Beginner',
+  improver: 'Improver',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced'
+};
+
+// Spots the booking takes in a shared lesson - one per student, or one for the resident
+// themselves when it has none
+export const getStudentCount = (booking: Booking | BookingCandidate): number => {
+  return Math.max(booking.students?.length || 0, 1);
+};
+
+export const hasStudent = (booking: Booking, studentId: string): boolean => {
+  return !!booking.students?.some(student => student.id === studentId);
+};
+
+// "Mia, Leo" for the students a booking is for, or null when it has none
+export const getStudentNames = (booking: Booking): string | null => {
+  if (!booking.students || booking.students.length === 0) return null;
+  return booking.students.map(student => student.name).join(', ');
+};
+
+// Who the lesson is for - its students, or the resident who booked it
+export const getBookingDisplayName = (booking: Booking): string => {
+  return getStudentNames(booking) || booking.userName || booking.bookedBy;
+};
+
+// "Beginner, born 2016 - Asthma, has an inhaler" for the coach, leaving out what isn't set
+export const describeStudent = (student: Student): string => {
+  const details = [
+    student.swimmingLevel ? SWIMMING_LEVEL_LABELS[student.swimmingLevel] : '',
+    student.birthYear ? `born ${student.birthYear}` : ''
+  ].filter(Boolean).join(', ');
+  return [details, student.medicalNotes].filter(Boolean).join(' - ');
+};
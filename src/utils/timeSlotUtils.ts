@@ -1,27 +1,98 @@
-import { format, parse, addMinutes, isAfter, isBefore, isEqual } from 'date-fns';
-import type { Apartment, Booking, TimeSlot } from '../types';
+import { format, parse, addMinutes, isAfter, isBefore, isEqual, differenceInMinutes, getDay } from 'date-fns';
+import type {
+  Apartment,
+  Booking,
+  BookingCandidate,
+  BookingConflict,
+  BookingMoveCheck,
+  Closure,
+  CoachLimitReason,
+  CoachProfile,
+  DailyHours,
+  DayAvailability,
+  GridCell,
+  Instructor,
+  TimeSlot,
+  TravelTimeMatrix,
+  Weekday
+} from '../types';
+import { findClosure } from './closureUtils';
+import { isBlockingStatus, isHoldExpired, isOfferExpired } from './bookingStatusUtils';
+import { getSlotCapacity, isGroupBooking, isSameGroupSlot } from './lessonTypeUtils';
+import { getStudentCount } from './studentUtils';
 // TimeSlotStatus is already defined in types.ts, no need to redefine it here
 
-// Travel time buffer in minutes between different apartments
-const TRAVEL_TIME_BUFFER = 30;
+// Travel time buffer in minutes for apartment pairs without a configured travel time
+export const DEFAULT_TRAVEL_TIME_BUFFER = 30;
 
-// Generate time slots for a specific apartment and date
+// Travel times are stored once per pair, keyed by both apartment ids in sorted order
+export const getTravelTimeKey = (apartmentIdA: string, apartmentIdB: string): string => {
+  return [apartmentIdA, apartmentIdB].sort().join('_');
+};
+
+// Minutes the coach needs to get from one apartment to another
+export const getTravelTime = (
+  travelTimes: TravelTimeMatrix,
+  fromApartmentId: string,
+  toApartmentId: string
+): number => {
+  if (fromApartmentId === toApartmentId) return 0;
+  return travelTimes[getTravelTimeKey(fromApartmentId, toApartmentId)] ?? DEFAULT_TRAVEL_TIME_BUFFER;
+};
+
+// Weekdays in date-fns getDay() order
+export const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Opening hours of an apartment on a specific date, or null when it's closed all day
+ *
+ * A seasonal override covering the date replaces the regular week. Within the season or
+ * the regular week, a weekday that is set wins over the default hours.
+ */
+export const getOperatingHoursForDate = (apartment: Apartment, date: string): DailyHours | null => {
+  const weekday = WEEKDAYS[getDay(parse(date, 'yyyy-MM-dd', new Date()))];
+  const season = (apartment.seasonalHours || []).find(
+    seasonal => seasonal.startDate <= date && date <= seasonal.endDate
+  );
+
+  if (season) {
+    const seasonalDay = season.weeklyHours?.[weekday];
+    return seasonalDay !== undefined ? seasonalDay : season.hours;
+  }
+
+  const weeklyDay = apartment.weeklyHours?.[weekday];
+  if (weeklyDay !== undefined) {
+    return weeklyDay;
+  }
+
+  // Use either operatingHours object or direct properties
+  return {
+    start: apartment.operatingHours?.start || apartment.start || '08:00',
+    end: apartment.operatingHours?.end || apartment.end || '20:00'
+  };
+};
+
+// Display opening hours as "08:00-20:00", or "Closed"
+export const formatHours = (hours: DailyHours | null): string => {
+  return hours ? `${hours.start}-${hours.end}` : 'Closed';
+};
+
+// Lessons can start every SLOT_START_STEP minutes from opening time, whatever their length
+export const SLOT_START_STEP = 15;
+
+// Generate time slots for a specific apartment and date. There is a slot for every start
+// time the lesson still fits before closing at, so slots overlap each other. Slots last
+// slotDuration minutes when set, e.g. for a lesson type, instead of the apartment's default.
 export const generateTimeSlots = (
   apartment: Apartment,
   date: string,
-  bookings: Booking[]
+  bookings: Booking[],
+  closures: Closure[] = [],
+  coachProfile: CoachProfile | null = null,
+  slotDuration?: number
   // userHomeLocation removed as it's not used in this function
 ): TimeSlot[] => {
-  // If no bookings or empty bookings array, log it
-  if (!bookings || bookings.length === 0) {
-    console.log('WARNING: No bookings provided for', apartment.name, 'on', date);
-  } else {
-    console.log(`Processing ${bookings.length} bookings for ${apartment.name} on ${date}`);
-  }
   try {
-    console.log('Generating time slots for apartment:', apartment.name, 'date:', date);
-    console.log('Bookings provided:', bookings);
-    
     // Make sure apartment has required properties
     if (!apartment || !apartment.id) {
       console.error('Invalid apartment data:', apartment);
@@ -29,12 +100,17 @@ export const generateTimeSlots = (
     }
     
     // Ensure apartment has a defaultSlotDuration
-    const defaultSlotDuration = apartment.defaultSlotDuration || 60; // Default to 1 hour
+    const defaultSlotDuration = slotDuration || apartment.defaultSlotDuration || 60; // Default to 1 hour
     const slots: TimeSlot[] = [];
     
-    // Parse start and end times - use either operatingHours object or direct properties
-    const startTimeStr = apartment.operatingHours?.start || apartment.start || '08:00';
-    const endTimeStr = apartment.operatingHours?.end || apartment.end || '20:00';
+    // Use the hours that apply on this date - weekday and seasonal hours included
+    const hours = getOperatingHoursForDate(apartment, date);
+    if (!hours) {
+      return slots;
+    }
+    const startTimeStr = hours.start;
+    const endTimeStr = hours.end;
+    const closure = findClosure(closures, apartment.id, date);
     
     try {
       const startTime = parse(startTimeStr, 'HH:mm', new Date());
@@ -67,46 +143,47 @@ export const generateTimeSlots = (
           // Make sure bookings is an array
           const safeBookings = Array.isArray(bookings) ? bookings : [];
           
-          // Log the current time slot we're checking
-          console.log('Checking for bookings matching:', apartment.id, startTimeString, endTimeString);
-          
+          // Any booking or block touching the slot marks it, not just one with the exact same times
           const existingBooking = safeBookings.find(
             (booking) => 
               booking && 
-              booking.startTime === startTimeString && 
-              booking.endTime === endTimeString &&
-              booking.apartmentId === apartment.id
+              isActiveBooking(booking) &&
+              booking.apartmentId === apartment.id &&
+              timeRangesOverlap(startTimeString, endTimeString, booking.startTime, booking.endTime)
           );
           
           if (existingBooking) {
-            // Set the slot as booked if there's an existing booking
-            timeSlot.status = 'booked';
+            // Admin blocks make the slot unavailable, anything else books it
+            timeSlot.status = existingBooking.status === 'unavailable' ? 'unavailable' : 'booked';
             timeSlot.booking = existingBooking;
-            console.log('✓ FOUND BOOKING for slot:', startTimeString, '-', endTimeString, 'at', apartment.name);
-          } else {
-            // Debug output for detailed booking check
-            console.log(`No exact match found for ${startTimeString}-${endTimeString} at ${apartment.name}`);
-            
-            // Log all bookings for debugging
-            safeBookings.forEach((booking, idx) => {
-              if (booking.apartmentId === apartment.id) {
-                console.log(`Booking ${idx+1} available:`, 
-                  'apartmentId:', booking.apartmentId, 
-                  'time:', booking.startTime, '-', booking.endTime,
-                  'matches current slot:', (booking.startTime === startTimeString && booking.endTime === endTimeString) ? 'YES' : 'NO'
-                );
-              }
-            });
+            if (isGroupBooking(existingBooking)) {
+              const members = getGroupMembers(existingBooking, safeBookings);
+              timeSlot.spotsLeft = Math.max(getSlotCapacity(existingBooking) - countGroupSpots(members), 0);
+            }
           }
         } catch (bookingErr) {
           console.error('Error processing bookings for time slot:', bookingErr);
         }
         
+        // A closure overrides everything else - bookings inside it stay attached so they can be followed up
+        if (closure) {
+          timeSlot.status = 'closed';
+          timeSlot.closure = closure;
+        }
+        
+        // Free slots also have to fit the coach's working hours, breaks and lesson limits
+        if (timeSlot.status === 'available') {
+          const coachLimit = findCoachLimit(timeSlot, Array.isArray(bookings) ? bookings : [], coachProfile);
+          if (coachLimit) {
+            timeSlot.status = 'coach-unavailable';
+            timeSlot.coachLimit = coachLimit;
+          }
+        }
+        
         slots.push(timeSlot);
-        currentTime = addMinutes(currentTime, defaultSlotDuration);
+        currentTime = addMinutes(currentTime, SLOT_START_STEP);
       }
       
-      console.log(`Generated ${slots.length} time slots for apartment ${apartment.name}`);
       return slots;
     } catch (timeParseError) {
       console.error('Time parsing error:', timeParseError);
@@ -121,131 +198,555 @@ export const generateTimeSlots = (
 };
 
 /**
- * Apply travel time restrictions based on bookings across all apartments
+ * Apply travel time restrictions based on the coach's itinerary for the day
  * 
  * Core Logic:
- * 1. Show ALL booked slots across all locations
- * 2. Apply 30-minute travel buffer based on user's home location
- * 3. Example: If 3-4 PM is booked at Tamarind:
- *    - Tamarind residents see: 3-4 PM as unavailable
- *    - Quayside residents see: 2:30-4:30 PM as unavailable (with travel buffer)
+ * 1. The coach teaches every lesson, so their day is the ordered list of bookings across all apartments
+ * 2. A slot is only available if the coach can finish the previous lesson, travel to the slot's
+ *    apartment and arrive on time, and can still reach the next lesson afterwards
+ * 3. Example: If 3-4 PM is booked at Tamarind and Tamarind to Quayside takes 30 minutes:
+ *    - Tamarind shows 3-4 PM as booked, and the slots right before and after stay available
+ *    - Quayside shows 3-4 PM as unavailable and 2:30-3 PM / 4-4:30 PM as travel-restricted
+ * 
+ * Every user sees the same result, whatever their home location is.
  */
 export const applyTravelTimeRestrictions = (
   allTimeSlots: TimeSlot[],
-  userHomeLocation: string
+  bookings: Booking[],
+  travelTimes: TravelTimeMatrix = {}
 ): TimeSlot[] => {
-  // First, find all bookings across all apartments
-  const bookedSlots = allTimeSlots.filter(slot => 
-    slot.status === 'booked' || slot.status === 'unavailable'
-  );
-  
-  console.log('Applying travel time restrictions for user with home location:', userHomeLocation);
-  console.log('Found booked slots:', bookedSlots.length);
+  console.log('Applying travel time restrictions from coach itinerary with', bookings.length, 'bookings');
 
-  // Create a copy of all time slots to modify
   return allTimeSlots.map(slot => {
     // Skip modification for slots that are already booked or unavailable
-    if (slot.status === 'booked' || slot.status === 'unavailable') {
+    if (slot.status !== 'available') {
+      return slot;
+    }
+    
+    const conflict = findBookingConflict(slot, bookings, travelTimes);
+    if (!conflict) {
       return slot;
     }
     
-    // For each available slot, check if it needs a travel restriction
-    for (const bookedSlot of bookedSlots) {
-      // Don't apply travel restrictions for the same apartment
-      // Users can book adjacent slots in the same apartment
-      if (bookedSlot.apartmentId === slot.apartmentId) {
-        continue;
+    // Overlaps mean the coach is teaching elsewhere, otherwise they can't travel in time
+    return {
+      ...slot,
+      status: conflict.reason === 'overlap' ? 'unavailable' : 'travel-restricted',
+      conflict
+    };
+  });
+};
+
+// Lessons booked before there were several coaches belong to the first coach
+export const getDefaultCoachId = (instructors: Instructor[]): string | undefined => {
+  return instructors[0]?.id;
+};
+
+/**
+ * The bookings that take up a coach's time
+ *
+ * - Lessons with the coach, and lessons without a coach when they're the default coach
+ * - Blocks for the coach, and blocks without a coach, which apply to every coach
+ *
+ * Without a coach (no instructors set up yet) every booking counts.
+ */
+export const getCoachBookings = (
+  bookings: Booking[],
+  coachId: string | undefined,
+  defaultCoachId: string | undefined
+): Booking[] => {
+  if (!coachId) return bookings;
+  return bookings.filter(booking => booking.coachId
+    ? booking.coachId === coachId
+    : booking.status === 'unavailable' || coachId === defaultCoachId
+  );
+};
+
+/**
+ * Time slots of an apartment for a day, checked against each of the given coaches
+ *
+ * Every coach gets their own slots from their bookings, working hours and travel times.
+ * A slot is available when at least one coach is free and lists those coaches in
+ * coachIds. A group lesson with spots left that starts at the slot's time is shown
+ * before free coaches, so residents can join it. When nobody is free, a booking at the apartment is shown if there is one,
+ * otherwise the first coach's reason. Without coaches the day is one coach's itinerary.
+ * slotDuration overrides the apartment's slot length - see generateTimeSlots.
+ */
+export const generateSlotsForCoaches = (
+  apartment: Apartment,
+  date: string,
+  bookings: Booking[],
+  closures: Closure[],
+  travelTimes: TravelTimeMatrix,
+  coaches: Instructor[],
+  defaultCoachId: string | undefined,
+  slotDuration?: number
+): TimeSlot[] => {
+  if (coaches.length === 0) {
+    return applyTravelTimeRestrictions(
+      generateTimeSlots(apartment, date, bookings, closures, null, slotDuration),
+      bookings,
+      travelTimes
+    );
+  }
+
+  // Start times only depend on the apartment, so every coach gets the same slots in the same order
+  const slotsPerCoach = coaches.map(coach => {
+    const coachBookings = getCoachBookings(bookings, coach.id, defaultCoachId);
+    const slots = generateTimeSlots(apartment, date, coachBookings, closures, coach.profile || null, slotDuration);
+    return applyTravelTimeRestrictions(slots, coachBookings, travelTimes).map(slot =>
+      slot.status === 'available' ? { ...slot, coachIds: [coach.id] } : slot
+    );
+  });
+
+  return slotsPerCoach[0].map((firstSlot, index) => {
+    const coachSlots = slotsPerCoach.map(slots => slots[index]);
+    const joinableSlot = coachSlots.find(slot =>
+      (slot.spotsLeft || 0) > 0 && slot.booking?.startTime === slot.startTime
+    );
+    if (joinableSlot) {
+      return joinableSlot;
+    }
+    const freeSlots = coachSlots.filter(slot => slot.status === 'available');
+    if (freeSlots.length > 0) {
+      return { ...freeSlots[0], coachIds: freeSlots.flatMap(slot => slot.coachIds || []) };
+    }
+    return coachSlots.find(slot => slot.booking) || firstSlot;
+  });
+};
+
+// Count an apartment's free start times on a day, from the bookings of any number of days
+export const countAvailableSlots = (
+  apartment: Apartment,
+  date: string,
+  bookings: Booking[],
+  closures: Closure[],
+  travelTimes: TravelTimeMatrix,
+  coaches: Instructor[],
+  defaultCoachId: string | undefined,
+  slotDuration?: number
+): DayAvailability => {
+  const slots = generateSlotsForCoaches(
+    apartment,
+    date,
+    bookings.filter(booking => booking.date === date),
+    closures,
+    travelTimes,
+    coaches,
+    defaultCoachId,
+    slotDuration
+  );
+  return {
+    free: slots.filter(slot => slot.status === 'available').length,
+    total: slots.length
+  };
+};
+
+// Cancelled and declined bookings are kept for the record but no longer occupy their slot.
+// Requests waiting for approval do, so nobody else can book the time meanwhile, and so
+// do waitlist offers and holds until they expire.
+export const isActiveBooking = (booking: Booking): boolean => {
+  return isBlockingStatus(booking.status) && !isOfferExpired(booking) && !isHoldExpired(booking);
+};
+
+// Lessons count towards the coach's limits, admin blocks don't
+export const isLesson = (booking: Booking): boolean => {
+  return isActiveBooking(booking) && booking.status !== 'unavailable';
+};
+
+// Cancelling within the apartment's cutoff window counts as a late cancellation
+export const isLateCancellation = (
+  booking: Booking,
+  apartment: Apartment | undefined,
+  now: Date = new Date()
+): boolean => {
+  const cutoffHours = apartment?.cancellationCutoffHours || 0;
+  if (cutoffHours <= 0) return false;
+
+  const lessonStart = parse(`${booking.date} ${booking.startTime}`, 'yyyy-MM-dd HH:mm', new Date());
+  return differenceInMinutes(lessonStart, now) < cutoffHours * 60;
+};
+
+// Convert an "HH:mm" string to minutes since midnight
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+// Convert minutes since midnight back to an "HH:mm" string
+export const minutesToTime = (minutes: number): string => {
+  const hour = Math.floor(minutes / 60).toString().padStart(2, '0');
+  const minute = (minutes % 60).toString().padStart(2, '0');
+  return `${hour}:${minute}`;
+};
+
+// Check whether two "HH:mm" ranges overlap - ranges that only touch do not overlap
+export const timeRangesOverlap = (
+  startA: string,
+  endA: string,
+  startB: string,
+  endB: string
+): boolean => {
+  return timeToMinutes(startA) < timeToMinutes(endB) && timeToMinutes(startB) < timeToMinutes(endA);
+};
+
+// The coach's lessons and blocked times for a day, in the order they happen. A group
+// lesson is one stop, however many residents share it.
+export const getCoachItinerary = (bookings: Booking[], date: string): Booking[] => {
+  return bookings
+    .filter(booking => booking && isActiveBooking(booking) && booking.date === date)
+    .filter((booking, index, day) => !day.slice(0, index).some(earlier => isSameGroupSlot(earlier, booking)))
+    .sort((a, b) => a.startTime.localeCompare(b.startTime) || a.endTime.localeCompare(b.endTime));
+};
+
+// Skip the booking being re-checked when editing, including the generated
+// occurrences of a recurring series that is being replaced
+const withoutCandidate = (bookings: Booking[], candidate: BookingCandidate): Booking[] => {
+  if (!candidate.id) return bookings;
+  return bookings.filter(booking =>
+    booking.id !== candidate.id && !(booking.recurrence && booking.seriesId === candidate.id)
+  );
+};
+
+// The residents' active bookings in a group lesson's slot
+export const getGroupMembers = (slot: Booking | BookingCandidate, bookings: Booking[]): Booking[] => {
+  return bookings.filter(booking => isActiveBooking(booking) && isSameGroupSlot(slot, booking));
+};
+
+// Spots a group lesson's members take between them
+export const countGroupSpots = (members: Booking[]): number => {
+  return members.reduce((spots, member) => spots + getStudentCount(member), 0);
+};
+
+/**
+ * Find the existing booking that prevents a candidate from fitting into the coach's itinerary
+ *
+ * - A candidate joining a group lesson only needs a free spot for each of its students,
+ *   since the coach is there anyway
+ * - The candidate can't overlap any lesson, at any apartment
+ * - The coach has to finish the previous lesson and travel to the candidate's apartment in time
+ * - After the candidate, the coach has to be able to travel on to the next lesson in time
+ *
+ * Call this with freshly fetched bookings right before saving, so a stale grid
+ * can't produce a double booking.
+ */
+export const findBookingConflict = (
+  candidate: BookingCandidate,
+  bookings: Booking[],
+  travelTimes: TravelTimeMatrix = {}
+): BookingConflict | null => {
+  const groupMembers = getGroupMembers(candidate, withoutCandidate(bookings, candidate));
+  if (groupMembers.length > 0) {
+    return countGroupSpots(groupMembers) + getStudentCount(candidate) > getSlotCapacity(groupMembers[0])
+      ? { booking: groupMembers[0], reason: 'full' }
+      : null;
+  }
+
+  const itinerary = getCoachItinerary(withoutCandidate(bookings, candidate), candidate.date);
+
+  const overlapping = itinerary.find(booking =>
+    timeRangesOverlap(candidate.startTime, candidate.endTime, booking.startTime, booking.endTime)
+  );
+  if (overlapping) {
+    return { booking: overlapping, reason: 'overlap' };
+  }
+
+  const candidateStart = timeToMinutes(candidate.startTime);
+  const candidateEnd = timeToMinutes(candidate.endTime);
+
+  // Last lesson finishing before the candidate starts
+  const previous = itinerary
+    .filter(booking => timeToMinutes(booking.endTime) <= candidateStart)
+    .sort((a, b) => timeToMinutes(b.endTime) - timeToMinutes(a.endTime))[0];
+  if (previous) {
+    const travelMinutes = getTravelTime(travelTimes, previous.apartmentId, candidate.apartmentId);
+    if (timeToMinutes(previous.endTime) + travelMinutes > candidateStart) {
+      return { booking: previous, reason: 'travel-buffer', travelMinutes };
+    }
+  }
+
+  // First lesson starting after the candidate ends
+  const next = itinerary.find(booking => timeToMinutes(booking.startTime) >= candidateEnd);
+  if (next) {
+    const travelMinutes = getTravelTime(travelTimes, candidate.apartmentId, next.apartmentId);
+    if (candidateEnd + travelMinutes > timeToMinutes(next.startTime)) {
+      return { booking: next, reason: 'travel-buffer', travelMinutes };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check a candidate against the coach's working hours, breaks and lesson limits
+ *
+ * - The candidate has to fit inside one of the working windows for its weekday
+ * - It can't overlap a fixed break
+ * - The coach teaches at most maxLessonsPerDay lessons a day
+ * - Lessons less than breakMinutes apart are consecutive, and a run of consecutive
+ *   lessons can't be longer than maxConsecutiveLessons
+ *
+ * Without a profile the coach can teach whenever a pool is open. Joining a group lesson
+ * adds nothing to the coach's day, so it's never limited.
+ */
+export const findCoachLimit = (
+  candidate: BookingCandidate,
+  bookings: Booking[],
+  profile: CoachProfile | null | undefined
+): CoachLimitReason | null => {
+  if (!profile) return null;
+  if (getGroupMembers(candidate, withoutCandidate(bookings, candidate)).length > 0) return null;
+
+  const weekday = WEEKDAYS[getDay(parse(candidate.date, 'yyyy-MM-dd', new Date()))];
+  const windows = profile.workingHours[weekday] || [];
+  const candidateStart = timeToMinutes(candidate.startTime);
+  const candidateEnd = timeToMinutes(candidate.endTime);
+
+  const fitsWindow = windows.some(window =>
+    timeToMinutes(window.start) <= candidateStart && candidateEnd <= timeToMinutes(window.end)
+  );
+  if (!fitsWindow) {
+    return 'off-hours';
+  }
+
+  if (profile.breaks.some(coachBreak =>
+    timeRangesOverlap(candidate.startTime, candidate.endTime, coachBreak.start, coachBreak.end)
+  )) {
+    return 'break';
+  }
+
+  const lessons = getCoachItinerary(withoutCandidate(bookings, candidate), candidate.date).filter(isLesson);
+  if (profile.maxLessonsPerDay > 0 && lessons.length >= profile.maxLessonsPerDay) {
+    return 'daily-limit';
+  }
+
+  if (profile.maxConsecutiveLessons > 0) {
+    const day: BookingCandidate[] = [...lessons, candidate]
+      .sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+    const isConsecutive = (earlier: BookingCandidate, later: BookingCandidate) =>
+      timeToMinutes(later.startTime) - timeToMinutes(earlier.endTime) < profile.breakMinutes;
+
+    // Widen the run of consecutive lessons around the candidate in both directions
+    let first = day.indexOf(candidate);
+    let last = first;
+    while (first > 0 && isConsecutive(day[first - 1], day[first])) first--;
+    while (last < day.length - 1 && isConsecutive(day[last], day[last + 1])) last++;
+
+    if (last - first + 1 > profile.maxConsecutiveLessons) {
+      return 'consecutive-limit';
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check whether a booking can move to another start time or apartment on the same day
+ *
+ * Runs the same checks as saving the booking: the pool's hours and closures, the
+ * coach's itinerary and travel buffers, and for lessons the coach's limits. A group
+ * booking keeps its lesson type, so dropping it on the same lesson elsewhere only
+ * needs free spots for its students.
+ */
+export const checkBookingMove = (
+  booking: Booking,
+  apartment: Apartment,
+  startTime: string,
+  bookings: Booking[],
+  closures: Closure[],
+  travelTimes: TravelTimeMatrix,
+  instructors: Instructor[]
+): BookingMoveCheck => {
+  const duration = timeToMinutes(booking.endTime) - timeToMinutes(booking.startTime);
+  const candidate: BookingCandidate = {
+    id: booking.id,
+    apartmentId: apartment.id,
+    date: booking.date,
+    startTime,
+    endTime: minutesToTime(timeToMinutes(startTime) + duration),
+    isBlock: booking.status === 'unavailable',
+    coachId: booking.coachId,
+    lessonTypeId: booking.lessonTypeId,
+    capacity: booking.capacity,
+    students: booking.students
+  };
+
+  const hours = getOperatingHoursForDate(apartment, booking.date);
+  if (!hours || candidate.startTime < hours.start || candidate.endTime > hours.end || candidate.endTime <= candidate.startTime) {
+    return { candidate, outsideHours: true };
+  }
+
+  const closure = findClosure(closures, apartment.id, booking.date);
+  if (closure) {
+    return { candidate, closure };
+  }
+
+  // Blocks without a coach get in every coach's way, so they're checked against everyone
+  const defaultCoachId = getDefaultCoachId(instructors);
+  const coachId = booking.coachId || (candidate.isBlock ? undefined : defaultCoachId);
+  const coachBookings = getCoachBookings(bookings, coachId, defaultCoachId);
+  const conflict = findBookingConflict(candidate, coachBookings, travelTimes);
+  if (conflict) {
+    return { candidate, conflict };
+  }
+
+  if (!candidate.isBlock) {
+    const profile = instructors.find(instructor => instructor.id === coachId)?.profile;
+    const coachLimit = findCoachLimit(candidate, coachBookings, profile);
+    if (coachLimit) {
+      return { candidate, coachLimit };
+    }
+  }
+
+  return { candidate };
+};
+
+// Human readable explanation of a coach limit for tooltips and error messages
+export const describeCoachLimit = (reason: CoachLimitReason, profile: CoachProfile | null): string => {
+  switch (reason) {
+    case 'off-hours':
+      return 'The coach is not working at this time.';
+    case 'break':
+      return 'This time is during the coach\'s break.';
+    case 'daily-limit':
+      return `The coach already has ${profile?.maxLessonsPerDay} lessons on this day.`;
+    case 'consecutive-limit':
+      return `The coach needs a ${profile?.breakMinutes}-minute break after ${profile?.maxConsecutiveLessons} lessons in a row.`;
+    default:
+      return '';
+  }
+};
+
+// "HH:mm" options for time dropdowns
+export const getTimeOptions = (stepMinutes = 15): string[] => {
+  const options: string[] = [];
+  for (let minutes = 0; minutes < 24 * 60; minutes += stepMinutes) {
+    const hour = Math.floor(minutes / 60).toString().padStart(2, '0');
+    const minute = (minutes % 60).toString().padStart(2, '0');
+    options.push(`${hour}:${minute}`);
+  }
+  return options;
+};
+
+// Human readable explanation of a booking conflict for error messages
+export const describeBookingConflict = (
+  conflict: BookingConflict,
+  apartments: Apartment[]
+): string => {
+  const { booking, reason, travelMinutes } = conflict;
+  const apartmentName = apartments.find(apt => apt.id === booking.apartmentId)?.name || 'another pool';
+  const timeRange = `${booking.startTime}-${booking.endTime}`;
+
+  if (reason === 'full') {
+    return `The ${timeRange} group lesson at ${apartmentName} doesn't have enough spots left.`;
+  }
+  if (reason === 'travel-buffer') {
+    return `The coach needs ${travelMinutes ?? DEFAULT_TRAVEL_TIME_BUFFER} minutes to travel from the ${timeRange} booking at ${apartmentName}.`;
+  }
+  return `This time overlaps the ${timeRange} booking at ${apartmentName}.`;
+};
+
+/**
+ * Lay out one apartment's time slots over the rows of a schedule grid
+ *
+ * Slots overlap, since lessons can start every SLOT_START_STEP minutes. Every free start
+ * time gets a cell of its own, while the slots clashing with a booking or block become one
+ * cell at that booking's times, and the slots of a closure one cell for the closure.
+ * Neighbouring starts ruled out for the same reason are merged into one cell. Bookings
+ * starting with another cell, or inside another booking, are stacked onto that cell. A cell spans the rows from its
+ * start up to its end or the next cell, whichever comes first.
+ * The result maps the row where each cell starts to that cell, and rows covered by a cell
+ * above to null. Rows the apartment has no cell for are left out.
+ */
+export const layoutSlotColumn = (
+  rowTimes: string[],
+  slots: TimeSlot[]
+): Record<string, GridCell | null> => {
+  const sortedSlots = [...slots].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  const mergedSlots: TimeSlot[][] = [];
+
+  sortedSlots.forEach(slot => {
+    const current = mergedSlots[mergedSlots.length - 1];
+    const previous = current?.[current.length - 1];
+
+    if (slot.closure) {
+      if (previous?.closure?.id === slot.closure.id) {
+        current.push(slot);
+      } else {
+        mergedSlots.push([slot]);
       }
-      
-      // For each booked slot in other apartments, determine if this slot is affected
-      // due to travel time restrictions
-      
-      try {
-        // Parse times to Date objects for comparison
-        const bookedStartTime = parse(
-          `${bookedSlot.date} ${bookedSlot.startTime}`, 
-          'yyyy-MM-dd HH:mm', 
-          new Date()
-        );
-        const bookedEndTime = parse(
-          `${bookedSlot.date} ${bookedSlot.endTime}`, 
-          'yyyy-MM-dd HH:mm', 
-          new Date()
-        );
-        
-        const slotStartTime = parse(
-          `${slot.date} ${slot.startTime}`, 
-          'yyyy-MM-dd HH:mm', 
-          new Date()
-        );
-        const slotEndTime = parse(
-          `${slot.date} ${slot.endTime}`, 
-          'yyyy-MM-dd HH:mm', 
-          new Date()
-        );
-        
-        // Calculate travel buffer times
-        // If someone books 3:00-4:00 PM at Tamarind, the travel-restricted time at Quayside would be 2:30-4:30 PM
-        const bufferBeforeBooked = addMinutes(bookedStartTime, -TRAVEL_TIME_BUFFER);
-        const bufferAfterBooked = addMinutes(bookedEndTime, TRAVEL_TIME_BUFFER);
-        
-        // IMPORTANT LOGIC: How to apply the travel buffer
-        // 1. Only apply travel buffer when the user is coming from a DIFFERENT apartment (not their home)
-        // 2. For users whose home is in the booked apartment, no travel buffer needed
-        // 3. For users whose home is elsewhere, apply travel buffer to both ends
-        
-        let hasConflict = false;
-        
-        if (userHomeLocation === bookedSlot.apartmentId) {
-          // User's home is where the booking exists - they only see the exact booking time as unavailable
-          // No travel buffer needed - only check if the slot directly overlaps with booked time
-          hasConflict = (
-            (isAfter(slotStartTime, bookedStartTime) || isEqual(slotStartTime, bookedStartTime)) &&
-            (isBefore(slotStartTime, bookedEndTime))
-          ) || (
-            (isAfter(slotEndTime, bookedStartTime)) &&
-            (isBefore(slotEndTime, bookedEndTime) || isEqual(slotEndTime, bookedEndTime))
-          ) || (
-            (isBefore(slotStartTime, bookedStartTime) || isEqual(slotStartTime, bookedStartTime)) &&
-            (isAfter(slotEndTime, bookedEndTime) || isEqual(slotEndTime, bookedEndTime))
-          );
-        } else {
-          // User's home is different than where the booking exists
-          // Apply travel buffer on both sides of the booking
-          hasConflict = (
-            // Is slot start time within the buffered booking time (including buffer)?
-            (isAfter(slotStartTime, bufferBeforeBooked) || isEqual(slotStartTime, bufferBeforeBooked)) &&
-            (isBefore(slotStartTime, bufferAfterBooked) || isEqual(slotStartTime, bufferAfterBooked))
-          ) || (
-            // Is slot end time within the buffered booking time?
-            (isAfter(slotEndTime, bufferBeforeBooked) || isEqual(slotEndTime, bufferBeforeBooked)) &&
-            (isBefore(slotEndTime, bufferAfterBooked) || isEqual(slotEndTime, bufferAfterBooked))
-          ) || (
-            // Does slot fully encompass the buffered booking time?
-            (isBefore(slotStartTime, bufferBeforeBooked) || isEqual(slotStartTime, bufferBeforeBooked)) &&
-            (isAfter(slotEndTime, bufferAfterBooked) || isEqual(slotEndTime, bufferAfterBooked))
-          );
-        }
-        
-        // If there's a conflict, mark the slot as travel-restricted and break the loop
-        if (hasConflict) {
-          slot = { ...slot, status: 'travel-restricted' };
-          if (userHomeLocation === bookedSlot.apartmentId) {
-            // For residents of the apartment where booking exists, mark as unavailable instead
-            slot.status = 'unavailable';
-          }
-          // No need to check other booked slots since we've already determined this one is restricted
-          break;
-        }
-      } catch (error) {
-        console.error('Error checking travel time restrictions:', error);
-        // Continue with next booked slot if there's an error
-        continue;
+      return;
+    }
+
+    const booking = slot.booking;
+    if (booking) {
+      if (!mergedSlots.some(cellSlots => cellSlots[0].booking?.id === booking.id)) {
+        mergedSlots.push([{ ...slot, startTime: booking.startTime, endTime: booking.endTime }]);
       }
+      return;
+    }
+
+    const continuesRun =
+      previous &&
+      !previous.closure &&
+      !previous.booking &&
+      slot.status !== 'available' &&
+      previous.status === slot.status;
+
+    if (continuesRun) {
+      current.push(slot);
+    } else {
+      mergedSlots.push([slot]);
     }
-    
-    return slot;
   });
+
+  // A booking starting with the cell before it, e.g. another coach's lesson at a time a coach
+  // is free, or inside the booking before it, is stacked onto that cell, so none is hidden
+  const isBookingCell = (slot: TimeSlot) => !!slot.booking && !slot.closure;
+  const cells: { slots: TimeSlot[]; stackedSlots: TimeSlot[] }[] = [];
+  mergedSlots
+    .sort((a, b) =>
+      a[0].startTime.localeCompare(b[0].startTime) ||
+      Number(!!a[0].booking) - Number(!!b[0].booking)
+    )
+    .forEach(cellSlots => {
+      const previous = cells[cells.length - 1];
+      const isStacked = previous && isBookingCell(cellSlots[0]) && (
+        previous.slots[0].startTime === cellSlots[0].startTime ||
+        (isBookingCell(previous.slots[0]) &&
+          timeToMinutes(cellSlots[0].startTime) < timeToMinutes(previous.slots[previous.slots.length - 1].endTime))
+      );
+
+      if (isStacked) {
+        previous.stackedSlots.push(cellSlots[0]);
+      } else if (!previous || previous.slots[0].startTime !== cellSlots[0].startTime) {
+        cells.push({ slots: cellSlots, stackedSlots: [] });
+      }
+    });
+
+  const layout: Record<string, GridCell | null> = {};
+
+  cells.forEach(({ slots: cellSlots, stackedSlots }, index) => {
+    const cellStart = cellSlots[0].startTime;
+    const nextCell = cells[index + 1];
+    const cellEnd = nextCell
+      ? Math.min(timeToMinutes(cellSlots[cellSlots.length - 1].endTime), timeToMinutes(nextCell.slots[0].startTime))
+      : timeToMinutes(cellSlots[cellSlots.length - 1].endTime);
+    const coveredRows = rowTimes.filter(time =>
+      timeToMinutes(time) >= timeToMinutes(cellStart) && timeToMinutes(time) < cellEnd
+    );
+
+    coveredRows.forEach(time => {
+      layout[time] = null;
+    });
+    layout[cellStart] = {
+      slots: cellSlots,
+      rowSpan: Math.max(coveredRows.length, 1),
+      stackedSlots
+    };
+  });
+
+  return layout;
 };
 
 // Group time slots by apartment for display
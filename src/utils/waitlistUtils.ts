@@ -0,0 +1,77 @@
+import { addMinutes, isBefore, parse } from 'date-fns';
+import type { Booking, WaitlistEntry } from '../types';
+import { isActiveBooking, timeRangesOverlap } from './timeSlotUtils';
+
+// How long a resident has to confirm a slot offered from the waitlist
+export const WAITLIST_OFFER_MINUTES = 60;
+
+// Residents waiting for a slot or window, grouped for the admin's per-slot view
+export interface WaitlistGroup {
+  apartmentId: string;
+  startTime: string;
+  endTime: string;
+  entries: WaitlistEntry[]; // first in line first
+}
+
+// Entries still in line, oldest first
+const getQueue = (entries: WaitlistEntry[]): WaitlistEntry[] => {
+  return entries
+    .filter(entry => entry.status === 'waiting')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+};
+
+// Whether a freed slot falls inside the slot or window the entry is waiting for
+export const isSlotInWaitlistEntry = (entry: WaitlistEntry, slot: Booking): boolean => {
+  return entry.apartmentId === slot.apartmentId &&
+    entry.date === slot.date &&
+    entry.startTime <= slot.startTime &&
+    slot.endTime <= entry.endTime;
+};
+
+/**
+ * The first resident in line for a freed slot who can take it
+ *
+ * Residents are skipped when they freed the slot themselves or already have a lesson
+ * at that time.
+ */
+export const findNextWaitlistEntry = (
+  entries: WaitlistEntry[],
+  freed: Booking,
+  bookings: Booking[]
+): WaitlistEntry | undefined => {
+  return getQueue(entries).find(entry =>
+    isSlotInWaitlistEntry(entry, freed) &&
+    entry.userId !== freed.bookedBy &&
+    !bookings.some(booking =>
+      booking.bookedBy === entry.userId &&
+      booking.date === freed.date &&
+      isActiveBooking(booking) &&
+      timeRangesOverlap(booking.startTime, booking.endTime, freed.startTime, freed.endTime)
+    )
+  );
+};
+
+// An offer runs for WAITLIST_OFFER_MINUTES, but never past the start of the lesson
+export const getOfferExpiry = (slot: Booking, now: Date = new Date()): Date => {
+  const lessonStart = parse(`${slot.date} ${slot.startTime}`, 'yyyy-MM-dd HH:mm', new Date());
+  const expiry = addMinutes(now, WAITLIST_OFFER_MINUTES);
+  return isBefore(lessonStart, expiry) ? lessonStart : expiry;
+};
+
+// Group a day's waitlist by the slot or window queued for, in time order
+export const groupWaitlist = (entries: WaitlistEntry[]): WaitlistGroup[] => {
+  const groups: Record<string, WaitlistGroup> = {};
+  [...entries]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .forEach(entry => {
+      const key = `${entry.apartmentId}_${entry.startTime}_${entry.endTime}`;
+      if (!groups[key]) {
+        groups[key] = { apartmentId: entry.apartmentId, startTime: entry.startTime, endTime: entry.endTime, entries: [] };
+      }
+      groups[key].entries.push(entry);
+    });
+
+  return Object.values(groups).sort((a, b) =>
+    a.startTime.localeCompare(b.startTime) || a.endTime.localeCompare(b.endTime)
+  );
+};